@@ -1,10 +1,86 @@
-import { classify } from "./src/classify.mts";
+import {
+  createCoverageReport,
+  ENTITY_KINDS,
+  formatCoverage,
+  parseCoverageThresholds,
+  type CoverageEntry,
+  type CoverageSummary,
+} from "./src/coverage.mts";
+import {
+  createConfigSchema,
+  declareScript as script,
+  loadConfig,
+  type EditQuota,
+  type FileConfig,
+} from "./src/config.mts";
+import { getFocusedContext } from "./src/context.mts";
 import { csharpOps } from "./src/csharp.mts";
+import {
+  DOC_COMMENT_SCHEMA,
+  DOC_COMMENT_UPDATE_SCHEMA,
+  mockDocComment,
+  parseDocComment,
+  type DocComment,
+} from "./src/docs.mts";
+import {
+  normalizePath,
+  overlapsChanges,
+  parseChangedRanges,
+  type ChangedRanges,
+} from "./src/diff.mts";
+import {
+  dedentComment,
+  renderExample,
+  selectExamples,
+  type DocExample,
+} from "./src/examples.mts";
+import { goOps } from "./src/go.mts";
+import {
+  hasIgnorePragmas,
+  IGNORE_FILENAME,
+  parseIgnoreFile,
+} from "./src/ignore.mts";
+import { javaOps } from "./src/java.mts";
+import { javascriptOps } from "./src/javascript.mts";
 import type { EntityKind, LanguageOps } from "./src/langops.mts";
+import {
+  getJudgeVerdict,
+  judgeDocComment,
+  type JudgeResult,
+  type JudgeVerdict,
+} from "./src/judge.mts";
+import { getLedgerKey, Ledger } from "./src/ledger.mts";
 import { pythonOps } from "./src/python.mts";
+import {
+  countIdentifiers,
+  countParams,
+  getDeclarationName,
+  getRankingScore,
+  type RankingSignals,
+} from "./src/ranking.mts";
+import {
+  getDocSummary,
+  renderReference,
+  selectReferences,
+  type SymbolIndex,
+} from "./src/references.mts";
+import {
+  createReviewComments,
+  createReviewPayload,
+  postReview,
+  type ReviewComment,
+} from "./src/review.mts";
+import { rustOps } from "./src/rust.mts";
+import { getNodesRegion, SarifLog, type SarifResult } from "./src/sarif.mts";
 import { typescriptOps } from "./src/typescript.mts";
+import {
+  getUnknownDocumentedParams,
+  validateDocComment,
+} from "./src/validate.mts";
 
-script({
+// genaiscript reads the metadata from the source of this call, the returned parameters
+// are used at runtime to read the inputs and validate the configuration file
+const { parameters = {} } = script({
   title: "Generate code comments using AST insertion",
   description: `Generates and updates code comments using an AST/LLM hybrid approach.
 It uses ast-grep to look for undocumented and documented functions, classes, interfaces, and other
@@ -12,8 +88,8 @@ entities in the codebase, then uses a combination of LLM, and LLM-as-a-judge to
 the documentation.
 You should pretify your code before and after running this script to normalize the formatting.
 `,
-  accept: ".ts,.mts,.tsx,.mtsx,.cts,.py,*.cs",
-  files: "**/*.{ts,mts,tsx,mtsx,cts,py,cs}",
+  accept: ".ts,.mts,.tsx,.mtsx,.cts,.py,*.cs,.go,.rs,.java,.js,.jsx,.mjs,.cjs",
+  files: "**/*.{ts,mts,tsx,mtsx,cts,py,cs,go,rs,java,js,jsx,mjs,cjs}",
   branding: {
     color: "yellow",
     icon: "filter",
@@ -27,6 +103,30 @@ You should pretify your code before and after running this script to normalize t
       type: "string",
       description: `Additional prompting instructions for the LLM.`,
     },
+    docstringStyle: {
+      type: "string",
+      description: `Style of the Python docstrings: google, numpy, sphinx (or rest), epytext, or auto to follow the dominant style of the docstrings of the file, then of the workspace. Updated docstrings keep their style.`,
+      enum: ["auto", "google", "numpy", "sphinx", "rest", "epytext"],
+      default: "auto",
+    },
+    fewShot: {
+      type: "integer",
+      description: `Number of documented entities of the same kind and language passed to the LLM as examples of the conventions of the docs. Set to 0 to disable.`,
+      default: 3,
+      minimum: 0,
+    },
+    fewShotSelection: {
+      type: "string",
+      description: `How the examples are selected: similarity ranks them by same file, same enclosing declaration and similar signature; proximity takes the closest entities in the same file first.`,
+      enum: ["similarity", "proximity"],
+      default: "similarity",
+    },
+    referencesContext: {
+      type: "integer",
+      description: `Maximum number of tokens of the signatures and doc summaries of the types, base types and functions declared in other files and referenced by the entity. Set to 0 to disable.`,
+      default: 1000,
+      minimum: 0,
+    },
     dryRun: {
       type: "boolean",
       default: false,
@@ -40,7 +140,24 @@ You should pretify your code before and after running this script to normalize t
     judge: {
       type: "boolean",
       default: false,
-      description: "If true, the script will judge the generated docs.",
+      description:
+        "If true, the script will judge the generated docs on accuracy, completeness, conciseness and hallucination, and the updated docs on their improvement over the original docs. Updates failing only the improvement criterion are skipped as nitpicks.",
+    },
+    judgeThreshold: {
+      type: "number",
+      default: 3,
+      minimum: 1,
+      maximum: 5,
+      description:
+        "Minimum score, from 1 to 5, of the judged docs on each criterion. Docs scoring lower are refused.",
+    },
+    judgeMinConfidence: {
+      type: "integer",
+      default: 0,
+      minimum: 0,
+      maximum: 100,
+      description:
+        "Minimum confidence of the judge scores in percent, computed from the log probabilities of the model. Docs judged with a lower confidence are refused as uncertain. Ignored when the model does not return log probabilities.",
     },
     updateExisting: {
       type: "boolean",
@@ -65,34 +182,113 @@ You should pretify your code before and after running this script to normalize t
       description: `If true, only generate docs for exported entities.`,
       default: false,
     },
+    maxTokens: {
+      type: "integer",
+      description:
+        "Maximum number of tokens used by the generation and judge requests. The run stops before an entity that could exceed it.",
+    },
+    maxCost: {
+      type: "number",
+      description:
+        "Maximum cost of the generation and judge requests, as reported by the model provider. The run stops before an entity that could exceed it.",
+    },
+    concurrency: {
+      type: "integer",
+      description:
+        "Maximum number of entities generated and judged in parallel.",
+      default: 1,
+      minimum: 1,
+    },
     maxContext: {
       type: "integer",
-      description: "Maximum number of tokens to build content of requests.",
+      description:
+        "Maximum number of tokens to build content of requests. Files that do not fit are sent as the imports, the enclosing declarations, the neighbors and the callers of the entity.",
       default: 6000,
     },
+    baseRef: {
+      type: "string",
+      description: `If set, only document entities whose declaration overlaps lines changed since this git reference (e.g. "origin/main"), as computed by git diff.`,
+    },
+    audit: {
+      type: "boolean",
+      default: false,
+      description: `If true, only report the documentation coverage of the files, without LLM calls.`,
+    },
+    minCoverage: {
+      type: "string",
+      description: `Minimum documentation coverage percentage, overall and/or per kind, e.g. "80" or "80,function=100,type=90". The audit fails when the coverage is lower.`,
+    },
+    auditReport: {
+      type: "string",
+      description: `Path of the JSON coverage report written by the audit.`,
+      default: ".genai-commentor/coverage.json",
+    },
+    ledger: {
+      type: "string",
+      description: `Path of the ledger file recording the outcome of each reviewed entity. Entities are skipped until their declaration or docs change. Commit this file. Set to empty to disable.`,
+      default: ".genai-commentor/ledger.json",
+    },
+    sarif: {
+      type: "string",
+      description: `Path of a SARIF 2.1.0 file reporting the missing, stale and invalid docs, with the generated docs as fixes. Missing docs are reported beyond maxEdits. Set to empty to disable.`,
+    },
+    review: {
+      type: "string",
+      description: `If set, the edits are not applied and are written to this path as the JSON payload of a pull request review, with one suggestion per edit.`,
+    },
+    reviewPost: {
+      type: "boolean",
+      default: false,
+      description: `If true, post the review suggestions on the pull request through the GitHub REST API.`,
+    },
   },
 });
 const { output, dbg, vars } = env;
 const cache = true;
 
 let { files } = env;
+
+// repository configuration, the parameters of each file are resolved from the run parameters
+const config = await loadConfig(createConfigSchema(parameters));
+const runParameters = config.resolveRunParameters(parameters, vars);
+runParameters.model ??= "large";
+runParameters.addMissing ??= true;
 const {
-  model = "large",
+  model,
   dryRun,
   mock,
-  addMissing = true,
+  addMissing,
   updateExisting,
   maxEdits,
+  maxTokens,
+  maxCost,
+  concurrency,
   instructions,
+  docstringStyle,
+  fewShot,
+  fewShotSelection,
+  referencesContext,
   maxContext,
   kinds,
   exportsOnly,
   judge,
-} = vars;
-const applyEdits = !dryRun;
+  judgeThreshold,
+  judgeMinConfidence,
+  baseRef,
+  ledger: ledgerFilename,
+  audit,
+  minCoverage,
+  auditReport,
+  sarif,
+  review,
+  reviewPost,
+} = runParameters;
+// review mode proposes the edits instead of applying them
+const applyEdits = !dryRun && !review;
 
 dbg({
   files: files.map((f) => f.filename),
+  config: config.filename,
   model,
   dryRun,
   mock,
@@ -100,23 +296,69 @@ dbg({
   addMissing,
   updateExisting,
   maxEdits,
+  maxTokens,
+  maxCost,
+  concurrency,
   instructions,
+  docstringStyle,
+  fewShot,
+  fewShotSelection,
+  referencesContext,
   maxContext,
   kinds,
   exportsOnly,
   judge,
+  judgeThreshold,
+  judgeMinConfidence,
+  baseRef,
+  ledgerFilename,
+  audit,
+  minCoverage,
+  auditReport,
+  sarif,
+  review,
+  reviewPost,
 });
 
-if (!addMissing && !updateExisting)
+if (!audit && !addMissing && !updateExisting && !config.scoped)
   cancel(`not generating or updating docs, exiting...`);
+const coverageThresholds = parseCoverageThresholds(minCoverage);
+
+// restrict to the lines changed since the base reference
+let changedRanges: ChangedRanges | undefined;
+if (baseRef) {
+  const diff = await git.exec([
+    "diff",
+    "--unified=0",
+    "--no-color",
+    "--no-ext-diff",
+    "--relative",
+    baseRef,
+  ]);
+  changedRanges = parseChangedRanges(diff);
+  files = files.filter((f) => changedRanges[normalizePath(f.filename)]);
+  dbg(`files changed since %s: %d`, baseRef, files.length);
+}
+// exclude the files listed in .commentorignore
+const ignoreFile = await workspace.readText(IGNORE_FILENAME);
+if (ignoreFile?.content) {
+  const isIgnored = parseIgnoreFile(ignoreFile.content);
+  const n = files.length;
+  files = files.filter((f) => !isIgnored(f.filename));
+  dbg(`files ignored by %s: %d`, IGNORE_FILENAME, n - files.length);
+}
 if (!files.length) cancel(`no files to process, exiting...`);
 
-const entityKinds: EntityKind[] = kinds
-  .split(",")
-  .map((e: string) => e.trim())
-  .filter((e: string) => e);
+// load the outcomes of previous runs
+const ledger = ledgerFilename ? new Ledger(ledgerFilename) : undefined;
+try {
+  await ledger?.load();
+} catch (e) {
+  output.warn(`ignoring invalid ledger: ${e.message}`);
+}
 
-dbg(`entityKinds: %o`, entityKinds);
+// collect the findings reported as SARIF
+const sarifLog = sarif ? new SarifLog() : undefined;
 
 // launch ast-grep instance
 const sg = await host.astGrep();
@@ -131,15 +373,76 @@ type FileStats = {
   judgeCost: number; // judge cost
   generated: number; // # generated docs
   updated: number; // # updated docs
-  nits: number; // nits found, only for new docs
+  nits: number; // updates judged as nitpicks, only for updated docs
   refused: number; // refused generation
+  uncertain: number; // refused generation, judged with a low confidence
+  skipped: number; // unchanged entities skipped using the ledger
+  ignored: number; // entities excluded by ignore pragmas
+  valid: number; // docs matching the declaration signature
+  repaired: number; // docs repaired to match the declaration signature
+  rejected: number; // docs rejected by the signature validation
+  failed: number; // generation or judge errors
 };
 const stats: FileStats[] = [];
+// edits of each file proposed as review suggestions
+const reviewEdits: Record<string, SgEdit[]> = {};
+const processedFiles = new Set<string>();
+// dominant doc style of the workspace files of each language
+const workspaceDocStyles = new Map<SgLang, Promise<string | undefined>>();
+// entities of the workspace files of each language, used as examples and references
+const workspaceEntities = new Map<
+  SgLang,
+  Promise<{ examples: DocExample[]; symbols: SymbolIndex }>
+>();
+// number of tokens of the workspace files, to decide whether to focus their context
+const fileTokens = new Map<string, Promise<number>>();
 
-// process each file serially
+// process the entities concurrently, in ranking order
 let totalUpdates = 0; // Track total new or updated comments
+let processedEntities = 0; // entities sent to the LLM, to estimate the usage of the next one
+// budget that ended the run
+let stopReason: "max_edits" | "max_tokens" | "max_cost" | undefined;
 function shouldStop() {
-  return totalUpdates >= maxEdits;
+  if (!stopReason && totalUpdates >= maxEdits) stopReason = "max_edits";
+  return !!stopReason;
+}
+
+/** Total tokens and cost of the generation and judge requests */
+function getUsage() {
+  return {
+    tokens: stats.reduce((n, s) => n + s.gen + s.judge, 0),
+    cost: stats.reduce((n, s) => n + s.genCost + s.judgeCost, 0),
+  };
+}
+
+/**
+ * Returns the token or cost budget that could be exceeded by starting another entity,
+ * once the running entities complete. The usage of an entity is estimated from the average
+ * usage of the processed entities, or from maxContext for the first entity.
+ */
+function getExceededBudget(running: number) {
+  if (!maxTokens && !maxCost) return undefined;
+  const usage = getUsage();
+  const pending = running + 1;
+  const expectedTokens = processedEntities
+    ? usage.tokens / processedEntities
+    : maxContext;
+  const expectedCost = processedEntities ? usage.cost / processedEntities : 0;
+  const exceeded =
+    maxTokens && usage.tokens + pending * expectedTokens > maxTokens
+      ? "max_tokens"
+      : maxCost && usage.cost + pending * expectedCost > maxCost
+      ? "max_cost"
+      : undefined;
+  if (exceeded)
+    dbg(
+      `%s: %d tokens, %s cost, %d tokens expected per entity`,
+      exceeded,
+      usage.tokens,
+      usage.cost.toFixed(4),
+      expectedTokens
+    );
+  return exceeded;
 }
 
 function onUpdate() {
@@ -147,6 +450,69 @@ function onUpdate() {
   dbg(`total updates: %d`, totalUpdates);
 }
 
+/**
+ * Runs the task of each item in order, with at most `concurrency` tasks in flight.
+ * A running task reserves one edit until it completes so that the in-flight requests
+ * never overshoot maxEdits or the quotas of the item; the edits are then spent on the
+ * same items as a serial run. Items whose quota is spent are skipped.
+ * Until the usage of an entity is known, the tasks run one at a time under a token or cost budget.
+ * A failed task is reported to `onError` and has no edit, the other tasks keep running.
+ * Returns the results in the order of the items, undefined for the items without edit,
+ * and the number of items started before the run stopped.
+ */
+async function runBounded<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R | undefined>,
+  getQuotas: (item: T) => EditQuota[] = () => [],
+  onError: (item: T, error: any) => void = () => {}
+): Promise<{ results: (R | undefined)[]; started: number }> {
+  const results: (R | undefined)[] = new Array(items.length);
+  const running = new Set<Promise<void>>();
+  let started = 0;
+  for (let i = 0; i < items.length; i++) {
+    const quotas = getQuotas(items[i]);
+    while (
+      running.size &&
+      (running.size >= concurrency ||
+        totalUpdates + running.size >= maxEdits ||
+        quotas.some((q) => q.edits + q.running >= q.limit) ||
+        ((maxTokens || maxCost) && !processedEntities) ||
+        getExceededBudget(running.size))
+    )
+      await Promise.race(running);
+    stopReason ??= getExceededBudget(0);
+    if (shouldStop()) break;
+    started++;
+    // the other items may still fit in their quotas
+    const exhausted = quotas.find((q) => q.edits >= q.limit);
+    if (exhausted) {
+      dbg(`quota of %s reached, skipping`, exhausted.scope);
+      continue;
+    }
+    for (const q of quotas) q.running++;
+    const p: Promise<void> = task(items[i])
+      .catch((error) => {
+        onError(items[i], error);
+        return undefined;
+      })
+      .then((result) => {
+        processedEntities++;
+        results[i] = result;
+        if (result !== undefined) {
+          onUpdate();
+          for (const q of quotas) q.edits++;
+        }
+      })
+      .finally(() => {
+        for (const q of quotas) q.running--;
+        running.delete(p);
+      });
+    running.add(p);
+  }
+  await Promise.all(running);
+  return { results, started };
+}
+
 function getLanguageOps(language: SgLang): LanguageOps {
   if (language === "python") {
     return pythonOps;
@@ -154,40 +520,336 @@ function getLanguageOps(language: SgLang): LanguageOps {
     return typescriptOps;
   } else if (language === "csharp") {
     return csharpOps;
+  } else if (language === "go") {
+    return goOps;
+  } else if (language === "rust") {
+    return rustOps;
+  } else if (language === "java") {
+    return javaOps;
+  } else if (language === "javascript") {
+    return javascriptOps;
   } else {
     cancel(`unsupported language: ${language}`);
   }
 }
 
-for (const file of files) {
-  if (shouldStop()) {
-    dbg(`reached max updates, stopping.`);
-    break;
+if (audit) await auditCoverage();
+else await improveDocs();
+
+/** An entity to document, collected by the planning phase */
+type Candidate = {
+  file: WorkspaceFile;
+  mode: "new" | "update";
+  fileStats: FileStats;
+  langOps: LanguageOps;
+  match: SgNode;
+  kind: EntityKind;
+  /** Existing doc comment nodes, empty for new docs */
+  docNodes: SgNode[];
+  declKind: string;
+  declText: string;
+  docsText: string;
+  ledgerKey: string;
+  /** Missing doc finding, completed with the generated docs */
+  finding?: SarifResult;
+  signals: RankingSignals;
+  score: number;
+  /** Style of the docs for languages with several doc styles */
+  docStyle?: string;
+  /** Parameters in effect for the file */
+  config: FileConfig;
+  /** Scores of the generated docs, if judged */
+  judgement?: JudgeResult & { verdict: JudgeVerdict };
+};
+
+/** Edit of an accepted doc comment */
+type CandidateEdit = {
+  node: SgNode;
+  /** Extends the replaced range up to this index */
+  endPos?: number;
+  replacement: string;
+  docs: string;
+  /** True if the docs are inserted before the node, so that other edits of the node can follow them */
+  prepend?: boolean;
+};
+
+/** Edit accepted for a candidate */
+type AcceptedEdit = { candidate: Candidate; edit: CandidateEdit };
+
+/**
+ * Generates and updates the docs of all files. The candidates of all files are collected
+ * and ranked first, so that the edit budget is spent on the most important entities.
+ */
+async function improveDocs() {
+  const candidates: Candidate[] = [];
+  for (const file of files) {
+    console.debug(file.filename);
+    candidates.push(...(await collectCandidates(file)));
   }
-  console.debug(file.filename);
+  const ranking = await rankCandidates(candidates);
 
-  // generate updated docs
-  if (updateExisting) {
-    stats.push({
-      filename: file.filename,
-      kind: "update",
-      gen: 0,
-      genCost: 0,
-      judge: 0,
-      judgeCost: 0,
-      generated: 0,
-      updated: 0,
-      nits: 0,
-      refused: 0,
-    });
-    await updateDocs(file, stats.at(-1));
+  // generate and judge the docs concurrently, from the top of the ranking
+  // the edits are accepted as they complete, so that only the edits that can be
+  // applied together are counted against the budgets
+  const accepted = new Map<WorkspaceFile, AcceptedEdit[]>();
+  const { results, started } = await runBounded(
+    ranking,
+    async (candidate) => {
+      const edit =
+        candidate.mode === "new"
+          ? await generateMissingDoc(candidate)
+          : await generateUpdatedDoc(candidate);
+      if (!edit) return undefined;
+      const fileEdits = accepted.get(candidate.file) ?? [];
+      if (
+        !fileEdits.every((other) =>
+          canApplyTogether(other, { candidate, edit })
+        )
+      ) {
+        dbg(
+          `overlapping edit at %d, retrying on the next run`,
+          edit.node.range().start.index
+        );
+        return undefined;
+      }
+      fileEdits.push({ candidate, edit });
+      accepted.set(candidate.file, fileEdits);
+      return edit;
+    },
+    (candidate) => candidate.config.quotas,
+    (candidate, error) => {
+      output.warn(
+        `failed to document ${candidate.declKind} ${getDeclLabel(
+          candidate.declText
+        )} in ${candidate.file.filename}: ${error?.message ?? error}`
+      );
+      candidate.fileStats.failed++;
+    }
+  );
+
+  // apply the edits of each file in source order
+  for (const file of files)
+    await applyCandidateEdits(file, accepted.get(file) ?? []);
+
+  // all the candidates of a file were visited
+  const pendingFiles = new Set(ranking.slice(started).map((c) => c.file));
+  for (const file of files)
+    if (!pendingFiles.has(file)) processedFiles.add(file.filename);
+  if (stopReason) dbg(`reached %s, stopping.`, stopReason);
+
+  // entities in files visited partially or outside the diff are not known to be stale,
+  // mock outcomes are not recorded
+  if (ledger && applyEdits && !mock) {
+    if (!changedRanges) ledger.prune(processedFiles);
+    await ledger.save();
+  }
+
+  if (sarifLog) {
+    await workspace.writeText(sarif, JSON.stringify(sarifLog, null, 2) + "\n");
+    dbg(`sarif report written to %s`, sarif);
+  }
+
+  if (review) await proposeReview();
+
+  if (stats.length) {
+    // filter out rows with no edits or generation
+    const table = stats
+      .filter((row) =>
+        Object.values(row).some((d) => typeof d === "number" && d > 0)
+      )
+      // Format the numbers
+      .map((row) => ({
+        ...row,
+        gen: row.gen.toFixed(2),
+        genCost: row.genCost.toFixed(2),
+        judge: row.judge.toFixed(2),
+        judgeCost: row.judgeCost.toFixed(2),
+        generated: row.generated.toFixed(0),
+        updated: row.updated.toFixed(0),
+        nits: row.nits?.toFixed(0) || "N/A",
+        refused: row.refused.toFixed(0),
+        uncertain: row.uncertain.toFixed(0),
+        skipped: row.skipped.toFixed(0),
+        ignored: row.ignored.toFixed(0),
+        valid: row.valid.toFixed(0),
+        repaired: row.repaired.toFixed(0),
+        rejected: row.rejected.toFixed(0),
+        failed: row.failed.toFixed(0),
+      }));
+
+    output.table(table);
+  }
+
+  if (started) {
+    output.heading(3, `Ranking`);
+    output.table(
+      ranking.slice(0, started).map((c, i) => ({
+        rank: i + 1,
+        filename: c.file.filename,
+        line: c.match.range().start.line + 1,
+        kind: c.declKind,
+        mode: c.mode,
+        score: c.score.toFixed(2),
+        exported: c.signals.exported ? "yes" : "no",
+        params: c.signals.params,
+        lines: c.signals.lines,
+        references: c.signals.references,
+        edited: results[i] ? "yes" : "no",
+      }))
+    );
   }
 
-  // generate missing docs
-  if (addMissing) {
-    stats.push({
+  const judged = ranking.filter((c) => c.judgement);
+  if (judged.length) {
+    output.heading(3, `Judge`);
+    output.table(
+      judged.map(({ file, match, declKind, mode, judgement }) => ({
+        filename: file.filename,
+        line: match.range().start.line + 1,
+        kind: declKind,
+        mode,
+        ...judgement.scores,
+        confidence:
+          judgement.confidence !== undefined
+            ? `${judgement.confidence.toFixed(0)}%`
+            : "N/A",
+        verdict: judgement.verdict,
+      }))
+    );
+  }
+
+  if (stopReason) {
+    const usage = getUsage();
+    output.note(
+      `run stopped by the ${stopReason} budget: ${totalUpdates} edits, ${
+        usage.tokens
+      } tokens, ${usage.cost.toFixed(4)} cost`
+    );
+  }
+}
+
+/** Writes the edits as review suggestions and optionally posts them on the pull request */
+async function proposeReview() {
+  const comments: ReviewComment[] = [];
+  for (const [filename, fileEdits] of Object.entries(reviewEdits)) {
+    const { content } = await workspace.readText(filename);
+    comments.push(...createReviewComments(filename, content, fileEdits));
+  }
+  const payload = createReviewPayload(comments);
+  await workspace.writeText(review, JSON.stringify(payload, null, 2) + "\n");
+  dbg(`review payload written to %s`, review);
+  if (!comments.length) return;
+  if (reviewPost && !mock) {
+    const url = await postReview(payload);
+    output.note(`posted ${comments.length} review suggestions ${url || ""}`);
+  } else output.note(`proposed ${comments.length} review suggestions`);
+}
+
+/** Counts the documented and undocumented entities, without LLM calls */
+async function auditCoverage() {
+  const entries: CoverageEntry[] = [];
+  for (const file of files) {
+    const language = getLanguage(file);
+    const langOps = getLanguageOps(language);
+    const { params } = config.resolveFileConfig(
+      runParameters,
+      file.filename,
+      language
+    );
+    const fileKinds = parseEntityKinds(params.kinds);
+    // audit the kinds that have a threshold as well
+    const auditKinds = ENTITY_KINDS.filter(
+      (k) => fileKinds.includes(k) || coverageThresholds.kinds[k] !== undefined
+    );
+    const root = await parseFile(file, language);
+    for (const kind of auditKinds) {
+      const [documented, undocumented] = await Promise.all(
+        [true, false].map(
+          async (withComments) =>
+            (
+              await searchCommentableNodes(
+                root,
+                file,
+                withComments,
+                langOps,
+                [kind],
+                !!params.exportsOnly
+              )
+            ).length
+        )
+      );
+      if (documented || undocumented)
+        entries.push({
+          filename: file.filename,
+          language,
+          kind,
+          documented,
+          undocumented,
+        });
+    }
+  }
+
+  const report = createCoverageReport(
+    entries,
+    coverageThresholds,
+    !!exportsOnly
+  );
+  const rows = (summaries: Record<string, CoverageSummary>, key: string) =>
+    Object.entries(summaries).map(([name, s]) => ({
+      [key]: name,
+      documented: s.documented.toFixed(0),
+      undocumented: s.undocumented.toFixed(0),
+      coverage: formatCoverage(s),
+    }));
+  output.heading(
+    3,
+    `Documentation coverage: ${formatCoverage(report.overall)}`
+  );
+  output.table(rows(report.files, "filename"));
+  output.table(rows(report.kinds, "kind"));
+  output.table(rows(report.languages, "language"));
+
+  if (auditReport) {
+    await workspace.writeText(
+      auditReport,
+      JSON.stringify(report, null, 2) + "\n"
+    );
+    dbg(`coverage report written to %s`, auditReport);
+  }
+  if (report.failures.length) {
+    for (const failure of report.failures) output.caution(failure);
+    throw new Error(
+      `documentation coverage check failed: ${report.failures.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Collects the documented entities to update and the undocumented entities to generate,
+ * skipping the entities unchanged since their last review.
+ */
+async function collectCandidates(file: WorkspaceFile): Promise<Candidate[]> {
+  const language = getLanguage(file);
+  const langOps = getLanguageOps(language);
+  const fileConfig = config.resolveFileConfig(
+    runParameters,
+    file.filename,
+    language
+  );
+  const { params } = fileConfig;
+  const fileKinds = parseEntityKinds(params.kinds);
+  const fileExportsOnly = !!params.exportsOnly;
+  const root = await parseFile(file, language);
+  const candidates: Candidate[] = [];
+  // stats are reported by file, updates first
+  const modes = [
+    ...(params.updateExisting ? ["update" as const] : []),
+    ...(params.addMissing ? ["new" as const] : []),
+  ];
+  for (const mode of modes) {
+    const fileStats: FileStats = {
       filename: file.filename,
-      kind: "new",
+      kind: mode,
       gen: 0,
       genCost: 0,
       judge: 0,
@@ -196,139 +858,527 @@ for (const file of files) {
       updated: 0,
       nits: 0,
       refused: 0,
-    });
-    await addMissingDocs(file, stats.at(-1));
+      uncertain: 0,
+      skipped: 0,
+      ignored: 0,
+      valid: 0,
+      repaired: 0,
+      rejected: 0,
+      failed: 0,
+    };
+    stats.push(fileStats);
+    const withComments = mode === "update";
+    const matches = await searchCommentableNodes(
+      root,
+      file,
+      withComments,
+      langOps,
+      fileKinds,
+      fileExportsOnly
+    );
+    dbg(`found %d %s docs in %s`, matches.length, mode, file.filename);
+    if (hasIgnorePragmas(root.text())) {
+      fileStats.ignored = (
+        await searchCommentableNodes(
+          root,
+          file,
+          withComments,
+          langOps,
+          fileKinds,
+          fileExportsOnly,
+          true
+        )
+      ).length;
+      dbg(`ignored %d entities by pragmas`, fileStats.ignored);
+    }
+    // the matchers know the export rules of each language
+    const exported = fileExportsOnly
+      ? undefined
+      : (
+          await searchCommentableNodes(
+            root,
+            file,
+            withComments,
+            langOps,
+            fileKinds,
+            true
+          )
+        ).map(({ match }) => match.range().start.index);
+
+    for (const { match, kind } of matches) {
+      const docNodes = withComments ? langOps.getCommentNodes(match) : [];
+      let { declNode, declKind } = getDeclNodeAndKind(match, langOps);
+      const declText = getDeclText(declNode || match, langOps);
+      const docsText = docNodes
+        .map((n) => n.text().trim())
+        .join("\n")
+        .trim();
+      const docStyle = await getDocStyle(
+        langOps,
+        language,
+        params.docstringStyle,
+        docsText,
+        root
+      );
+
+      let finding: SarifResult;
+      if (sarifLog && withComments) {
+        // docs of parameters that do not exist are found without the LLM
+        const unknownParams = getUnknownDocumentedParams(
+          docsText,
+          langOps.getSignature?.(match)
+        );
+        if (unknownParams.length)
+          sarifLog.addResult(
+            "invalid",
+            kind,
+            file.filename,
+            getNodesRegion(docNodes[0], docNodes.at(-1)),
+            `Documentation of ${declKind} ${getDeclLabel(
+              declText
+            )} describes unknown parameters: ${unknownParams.join(", ")}.`
+          );
+      } else if (sarifLog)
+        // undocumented entities are reported even when they are not generated
+        finding = sarifLog.addResult(
+          "missing",
+          kind,
+          file.filename,
+          getNodesRegion(match),
+          `Missing documentation for ${declKind} ${getDeclLabel(declText)}.`
+        );
+
+      const ledgerKey = ledger
+        ? await getLedgerKey(file.filename, declText, docsText)
+        : undefined;
+      const ledgerEntry = ledger?.get(ledgerKey);
+      if (ledgerEntry) {
+        dbg(`unchanged since %s, skipping`, ledgerEntry.outcome);
+        fileStats.skipped++;
+        continue;
+      }
+
+      const range = match.range();
+      const signals: RankingSignals = {
+        kind,
+        exported: !exported || exported.includes(range.start.index),
+        params: langOps.getSignature
+          ? langOps.getSignature(match)?.params?.length || 0
+          : countParams(match),
+        lines: range.end.line - range.start.line + 1,
+        references: 0,
+      };
+      candidates.push({
+        file,
+        mode,
+        fileStats,
+        langOps,
+        match,
+        kind,
+        docNodes,
+        declKind,
+        declText,
+        docsText,
+        ledgerKey,
+        finding,
+        signals,
+        score: 0,
+        docStyle,
+        config: fileConfig,
+      });
+    }
   }
+  return candidates;
 }
 
-if (stats.length) {
-  // filter out rows with no edits or generation
-  const table = stats
-    .filter((row) =>
-      Object.values(row).some((d) => typeof d === "number" && d > 0)
+/**
+ * Ranks the candidates by importance, using the number of references to their name
+ * in the workspace files. Candidates with the same score stay in file and source order.
+ */
+async function rankCandidates(candidates: Candidate[]) {
+  const texts: string[] = [];
+  for (const file of env.files)
+    texts.push(
+      file.content ?? (await workspace.readText(file.filename))?.content ?? ""
+    );
+  const identifiers = countIdentifiers(texts);
+  for (const candidate of candidates) {
+    // modules are not referenced by name
+    const name =
+      candidate.kind === "module"
+        ? undefined
+        : getDeclarationName(candidate.match);
+    // the declaration itself is not a reference
+    candidate.signals.references = name
+      ? Math.max(0, (identifiers.get(name) || 0) - 1)
+      : 0;
+    candidate.score = getRankingScore(candidate.signals);
+  }
+  const ranking = candidates.slice(0).sort((l, r) => r.score - l.score);
+  ranking.forEach((c, i) =>
+    dbg(
+      `#%d %s %s:%d %s (%o)`,
+      i + 1,
+      c.score.toFixed(2),
+      c.file.filename,
+      c.match.range().start.line + 1,
+      c.declKind,
+      c.signals
     )
-    // Format the numbers
-    .map((row) => ({
-      ...row,
-      gen: row.gen.toFixed(2),
-      genCost: row.genCost.toFixed(2),
-      judge: row.judge.toFixed(2),
-      judgeCost: row.judgeCost.toFixed(2),
-      generated: row.generated.toFixed(0),
-      updated: row.updated.toFixed(0),
-      nits: row.nits?.toFixed(0) || "N/A",
-      refused: row.refused.toFixed(0),
-    }));
-
-  output.table(table);
+  );
+  return ranking;
 }
 
-async function addMissingDocs(file: WorkspaceFile, fileStats: FileStats) {
-  const language = getLanguage(file);
-  const langOps = getLanguageOps(language);
-  const rule = langOps.getCommentableNodesMatcher(
-    entityKinds,
-    false,
-    exportsOnly
+/** Orders the edits of a file by position, enclosing entities first when edits start at the same node */
+function compareEdits(l: AcceptedEdit, r: AcceptedEdit) {
+  return (
+    l.edit.node.range().start.index - r.edit.node.range().start.index ||
+    l.candidate.match.range().start.index -
+      r.candidate.match.range().start.index ||
+    r.candidate.match.range().end.index - l.candidate.match.range().end.index
   );
-  dbg(`searching for missing docs in %s`, file.filename);
-  const { matches } = await sg.search(language, file.filename, { rule }, {});
-  dbg(`found ${matches.length} missing docs`);
+}
 
-  // build a changeset to accumate edits
-  const edits = sg.changeset();
+/**
+ * Returns true if the edits do not overlap, or if the first one inserts docs before
+ * the node replaced by the other, e.g. a module doc inserted before the first declaration
+ */
+function canApplyTogether(l: AcceptedEdit, r: AcceptedEdit) {
+  if (compareEdits(l, r) > 0) [l, r] = [r, l];
+  const start = l.edit.node.range().start.index;
+  const end = l.edit.endPos ?? l.edit.node.range().end.index;
+  const other = r.edit.node.range().start.index;
+  return other >= end || (!!l.edit.prepend && other === start);
+}
 
-  // for each match, generate a docstring for declarations not documented
-  for (const match of matches) {
-    if (shouldStop()) break;
-    // Find the child node that is the declaration
-    let { declNode, declKind } = getDeclNodeAndKind(match);
-    const declText = declNode ? declNode.text() : match.text();
-    const res = mock
-      ? { error: null, text: "GENDOC", usage: undefined }
-      : await runPrompt(
-          (_) => {
-            const fileRef = _.def("FILE", match.getRoot().root().text(), {
-              flex: 1,
-            });
-            const declRef = _.def("DECLARATION", declText, { flex: 10 });
-            langOps
-              .addGenerateDocPrompt(_, declKind, declRef, fileRef)
-              .role("system");
-            if (instructions) _.$`${instructions}`.role("system");
-          },
-          {
-            model,
-            responseType: "text",
-            flexTokens: maxContext,
-            label: declText.slice(0, 20) + "...",
-            cache,
-          }
-        );
-    fileStats.gen += res.usage?.total || 0;
-    fileStats.genCost += res.usage?.cost || 0;
-    if (res.error) {
-      output.warn(res.error.message);
-      continue;
+/** Applies the accepted edits of a file in source order and writes the file */
+async function applyCandidateEdits(
+  file: WorkspaceFile,
+  accepted: AcceptedEdit[]
+) {
+  if (!accepted.length) return;
+  accepted.sort(compareEdits);
+  const edits = sg.changeset();
+  let last: { edit: CandidateEdit; sgEdit: SgEdit; start: number } | undefined;
+  for (const { candidate, edit } of accepted) {
+    const { mode, kind, fileStats, docNodes, declKind, declText, docsText } =
+      candidate;
+    const start = edit.node.range().start.index;
+    const end = edit.endPos ?? edit.node.range().end.index;
+    let sgEdit: SgEdit;
+    if (last && start < last.sgEdit.endPos) {
+      // e.g. a module doc inserted before the first declaration,
+      // the docs are inserted before the other edit of the node
+      if (!last.edit.prepend || start !== last.start) {
+        dbg(`overlapping edit at %d, retrying on the next run`, start);
+        continue;
+      }
+      sgEdit = last.sgEdit;
+      sgEdit.insertedText = last.edit.docs + edit.replacement;
+      sgEdit.endPos = Math.max(sgEdit.endPos, end);
+      last = { edit, sgEdit, start };
+    } else {
+      sgEdit = edits.replace(edit.node, edit.replacement);
+      if (edit.endPos !== undefined) sgEdit.endPos = edit.endPos;
+      last = { edit, sgEdit, start };
+      if (review) (reviewEdits[file.filename] ??= []).push(sgEdit);
     }
-
-    const nodeToAdjust0 = langOps.getCommentInsertionNode(match);
-    dbg(`node to adjust0: %o`, nodeToAdjust0.range());
-    const nodeToAdjust = getFirstNode(nodeToAdjust0);
-    dbg(`node to adjust: %o`, nodeToAdjust.range());
-
-    const docs = getIndentedCommentText(res.text.trim(), nodeToAdjust, langOps);
-
-    // sanity check
-    const judgeRes =
-      mock || !judge
-        ? { label: "ok", usage: undefined, answer: undefined }
-        : await classify(
-            (_) => {
-              _.def("FUNCTION", match.text());
-              _.def("DOCS", docs);
-            },
-            {
-              ok: "The content in <DOCS> is an accurate documentation for the code in <FUNCTION>.",
-              err: "The content in <DOCS> does not match with the code in <FUNCTION>.",
-            },
-            {
-              model,
-              responseType: "text",
-              temperature: 0.2,
-              flexTokens: maxContext,
-              cache,
-              systemSafety: false,
-              system: [
-                "system.technical",
-                langOps.getLanguageSystemPromptName(),
-              ],
-            }
-          );
-    fileStats.judge += judgeRes.usage?.total || 0;
-    fileStats.judgeCost += judgeRes.usage?.cost || 0;
-    if (judgeRes.label !== "ok") {
-      fileStats.refused++;
-      output.warn(judgeRes.label);
-      output.fence(judgeRes.answer);
-      continue;
+    if (mode === "new") {
+      if (candidate.finding)
+        sarifLog.addFix(
+          candidate.finding,
+          `Add the generated documentation`,
+          getNodesRegion(edit.node),
+          edit.replacement
+        );
+      ledger?.set(await getLedgerKey(file.filename, declText, "", edit.docs), {
+        outcome: "generated",
+        filename: file.filename,
+        kind: declKind,
+      });
+      fileStats.generated++;
+    } else {
+      if (sarifLog) {
+        const docsRegion = getNodesRegion(docNodes[0], docNodes.at(-1));
+        const finding = sarifLog.addResult(
+          "stale",
+          kind,
+          file.filename,
+          docsRegion,
+          `Outdated documentation for ${declKind} ${getDeclLabel(declText)}.`
+        );
+        sarifLog.addFix(
+          finding,
+          `Replace with the updated documentation`,
+          docsRegion,
+          edit.replacement
+        );
+      }
+      ledger?.set(
+        await getLedgerKey(file.filename, declText, docsText, edit.docs),
+        {
+          outcome: "updated",
+          filename: file.filename,
+          kind: declKind,
+        }
+      );
+      fileStats.updated++;
     }
-    edits.replace(nodeToAdjust, `${docs}${nodeToAdjust.text()}`);
-    fileStats.generated++;
-    onUpdate();
   }
 
-  // apply all edits and write to the file
-  const modifiedFiles = edits.commit();
-  if (!modifiedFiles?.length) {
+  // apply all edits and write to the file, parsed roots are anonymous
+  const [modified] = edits.commit();
+  if (!modified) {
     dbg("no edits to apply");
     return;
   }
+  const modifiedFile = { filename: file.filename, content: modified.content };
   if (applyEdits) {
-    await workspace.writeFiles(modifiedFiles);
+    await workspace.writeFiles([modifiedFile]);
+  }
+  output.diff(file, modifiedFile);
+  dbg(`updated %s with %d comments`, file.filename, accepted.length);
+}
+
+/**
+ * Scores the generated docs of a candidate on each criterion of the judge, updated docs are
+ * also scored on their improvement over the original docs. Returns the verdict of the judge.
+ */
+async function judgeDocs(
+  candidate: Candidate,
+  docs: string,
+  originalDocs?: string
+): Promise<JudgeVerdict> {
+  const { fileStats, langOps, match, declText } = candidate;
+  const { model, maxContext, judgeThreshold, judgeMinConfidence } =
+    candidate.config.params;
+  const result = await judgeDocComment(
+    match.text(),
+    docs,
+    {
+      model,
+      responseType: "text",
+      temperature: 0.2,
+      flexTokens: maxContext,
+      cache,
+      systemSafety: false,
+      system: ["system.technical", langOps.getLanguageSystemPromptName()],
+    },
+    originalDocs
+  );
+  fileStats.judge += result.usage.total;
+  fileStats.judgeCost += result.usage.cost;
+  const { verdict, issues } = getJudgeVerdict(
+    result,
+    judgeThreshold,
+    judgeMinConfidence
+  );
+  candidate.judgement = { ...result, verdict };
+  if (verdict === "accepted") return verdict;
+  if (verdict === "nit") {
+    output.warn("LLM suggests minor adjustments, skipping");
+    fileStats.nits++;
+    return verdict;
+  }
+  fileStats[verdict === "uncertain" ? "uncertain" : "refused"]++;
+  output.warn(
+    `judge ${verdict} documentation for ${declText.slice(
+      0,
+      20
+    )}...: ${issues.join(", ")}`
+  );
+  return verdict;
+}
+
+/** Generates the docs of an undocumented entity, returns the edit inserting them if accepted */
+async function generateMissingDoc(
+  candidate: Candidate
+): Promise<CandidateEdit | undefined> {
+  const {
+    file,
+    fileStats,
+    langOps,
+    match,
+    declKind,
+    declText,
+    ledgerKey,
+    docStyle,
+  } = candidate;
+  const { model, instructions, maxContext, judge } = candidate.config.params;
+  const examples = mock ? undefined : await getFewShotExamples(candidate);
+  const references = mock ? undefined : await getReferences(candidate);
+  const fileContext = mock
+    ? undefined
+    : await getFileContext(candidate, declText, examples, references);
+  const signature = langOps.getSignature?.(match);
+  const res = mock
+    ? {
+        error: null,
+        json: mockDocComment("GENDOC", signature),
+        usage: undefined,
+      }
+    : await runPrompt(
+        (_) => {
+          const fileRef = addFileContext(_, fileContext);
+          const declRef = _.def("DECLARATION", declText, { flex: 10 });
+          const examplesRef = examples
+            ? _.def("EXAMPLES", examples)
+            : undefined;
+          langOps
+            .addGenerateDocPrompt(_, declKind, declRef, fileRef, {
+              style: docStyle,
+              examplesRef,
+            })
+            .role("system");
+          addReferencesPrompt(_, references);
+          if (instructions) _.$`${instructions}`.role("system");
+        },
+        {
+          model,
+          responseType: "json_schema",
+          responseSchema: DOC_COMMENT_SCHEMA,
+          flexTokens: maxContext,
+          label: declText.slice(0, 20) + "...",
+          cache,
+        }
+      );
+  fileStats.gen += res.usage?.total || 0;
+  fileStats.genCost += res.usage?.cost || 0;
+  if (res.error) {
+    output.warn(res.error.message);
+    return undefined;
+  }
+  const generatedDoc = parseDocComment(res.json);
+  if (!generatedDoc) {
+    output.warn(
+      `invalid documentation generated for ${declText.slice(0, 20)}...`
+    );
+    return undefined;
+  }
+  const validation = validateDocComment(generatedDoc, signature);
+  fileStats[validation.verdict]++;
+  if (validation.verdict === "rejected") {
+    output.warn(
+      `rejected documentation for ${declText.slice(
+        0,
+        20
+      )}...: ${validation.issues.join(", ")}`
+    );
+    ledger?.set(ledgerKey, {
+      outcome: "refused",
+      filename: file.filename,
+      kind: declKind,
+    });
+    return undefined;
+  }
+  const doc = validation.doc;
+
+  const nodeToAdjust0 = langOps.getCommentInsertionNode(match);
+  dbg(`node to adjust0: %o`, nodeToAdjust0.range());
+  // comments inserted after the node are appended to its last token,
+  // so that they do not overlap with edits of the next declaration
+  const insertAfter = !!langOps.insertCommentAfter?.(match);
+  const nodeToAdjust = insertAfter
+    ? getLastNode(nodeToAdjust0)
+    : getFirstNode(nodeToAdjust0);
+  dbg(`node to adjust: %o`, nodeToAdjust.range());
+
+  const docs = getIndentedCommentText(
+    doc,
+    insertAfter ? nodeToAdjust0 : nodeToAdjust,
+    match,
+    langOps,
+    docStyle
+  );
+
+  // score the docs with the rubric of the judge
+  if (!mock && judge && (await judgeDocs(candidate, docs)) !== "accepted") {
+    ledger?.set(ledgerKey, {
+      outcome: "refused",
+      filename: file.filename,
+      kind: declKind,
+    });
+    return undefined;
   }
-  output.diff(file, modifiedFiles[0]);
-  dbg(`updated ${file.filename} by adding ${fileStats.generated} new comments`);
+  const replacement = insertAfter
+    ? `${nodeToAdjust.text()}\n${getIndentation(
+        nodeToAdjust0
+      )}${docs.trimEnd()}`
+    : `${docs}${nodeToAdjust.text()}`;
+  return { node: nodeToAdjust, replacement, docs, prepend: !insertAfter };
+}
+
+/** A commentable node and the entity kind it was matched as */
+type CommentableNode = { match: SgNode; kind: EntityKind };
+
+/**
+ * Parses a file from disk. The nodes edited in a file must belong to the same root
+ * so that their edits share a changeset.
+ */
+async function parseFile(file: WorkspaceFile, language: SgLang) {
+  const current = await workspace.readText(file.filename);
+  return (await sg.parse(current, { lang: language })).root();
+}
+
+/**
+ * Searches the commentable nodes of each entity kind, in source order,
+ * skipping the non exported entities and the entities outside the diff if needed.
+ * Entities excluded by ignore pragmas are skipped, or searched alone when `ignored` is true.
+ */
+async function searchCommentableNodes(
+  root: SgNode,
+  file: WorkspaceFile,
+  withComments: boolean,
+  langOps: LanguageOps,
+  kinds: EntityKind[],
+  exportedOnly: boolean,
+  ignored: boolean = false
+): Promise<CommentableNode[]> {
+  let nodes: CommentableNode[] = [];
+  for (const kind of kinds) {
+    const rule = langOps.getCommentableNodesMatcher(
+      [kind],
+      withComments,
+      exportedOnly,
+      ignored
+    );
+    for (const match of root.findAll({ rule })) {
+      // a node matched by several kinds is reported once
+      const index = match.range().start.index;
+      if (
+        !nodes.some(
+          (n) =>
+            n.match.range().start.index === index &&
+            n.match.kind() === match.kind()
+        )
+      )
+        nodes.push({ match, kind });
+    }
+  }
+  nodes.sort(
+    (l, r) =>
+      l.match.range().start.index - r.match.range().start.index ||
+      r.match.range().end.index - l.match.range().end.index
+  );
+  if (langOps.hasDocComment) {
+    const n = nodes.length;
+    nodes = nodes.filter(
+      ({ match }) => langOps.hasDocComment(match) === withComments
+    );
+    dbg(`filtered %d matches with mismatched docs`, n - nodes.length);
+  }
+  if (exportedOnly && langOps.isExported) {
+    const n = nodes.length;
+    nodes = nodes.filter(({ match }) => langOps.isExported(match));
+    dbg(`filtered %d non exported matches`, n - nodes.length);
+  }
+  if (changedRanges) {
+    const ranges = changedRanges[normalizePath(file.filename)] || [];
+    const n = nodes.length;
+    nodes = nodes.filter(({ match }) => overlapsChanges(match, ranges));
+    dbg(`filtered %d unchanged matches`, n - nodes.length);
+  }
+  return nodes;
 }
 
 function getFirstNode(node: SgNode) {
@@ -341,142 +1391,155 @@ function getFirstNode(node: SgNode) {
   return node;
 }
 
-async function updateDocs(file: WorkspaceFile, fileStats: FileStats) {
-  const language = getLanguage(file);
-  const langOps = getLanguageOps(language);
-  const rule = langOps.getCommentableNodesMatcher(
-    entityKinds,
-    true,
-    exportsOnly
-  );
-  const { matches } = await sg.search(language, file.filename, { rule }, {});
-  dbg(`found ${matches.length} docs to updateExisting`);
-  const edits = sg.changeset();
-  // for each match, generate a docstring for functions not documented
-  for (const match of matches) {
-    if (shouldStop()) break;
-    const docNodes = langOps.getCommentNodes(match);
-    let { declNode, declKind } = getDeclNodeAndKind(match);
-    const declText = declNode ? declNode.text() : match.text();
-
-    const docsText = docNodes
-      .map((n) => n.text().trim())
-      .join("\n")
-      .trim();
-
-    const res = mock
-      ? { error: null, text: "UPDATEDOC", usage: undefined }
-      : await runPrompt(
-          (_) => {
-            const declRef = _.def("DECLARATION", declText, { flex: 10 });
-            _.def("FILE", match.getRoot().root().text(), { flex: 1 });
-            _.def("DOCSTRING", docsText, { flex: 10 });
-            langOps.addUpdateDocPrompt(_, declKind, declRef).role("system");
-          },
-          {
-            model,
-            responseType: "text",
-            flexTokens: maxContext,
-            label: declText.slice(0, 20) + "...",
-            cache,
-            temperature: 0.2,
-            systemSafety: false,
-            system: ["system.technical", langOps.getLanguageSystemPromptName()],
-          }
-        );
-    fileStats.gen += res.usage?.total || 0;
-    fileStats.genCost += res.usage?.cost || 0;
-    // if generation is successful, insert the docs
-    if (res.error) {
-      output.warn(res.error.message);
-      continue;
-    }
+function getLastNode(node: SgNode) {
+  while (node && node.children().length > 0) node = node.children().at(-1);
+  return node;
+}
 
-    if (res.text.includes("/NO/")) {
-      dbg(`llm says docs are up to date, skipping`);
-      continue;
-    }
+/** Generates the updated docs of a documented entity, returns the edit replacing them if accepted */
+async function generateUpdatedDoc(
+  candidate: Candidate
+): Promise<CandidateEdit | undefined> {
+  const {
+    file,
+    fileStats,
+    langOps,
+    match,
+    docNodes,
+    declKind,
+    declText,
+    docsText,
+    ledgerKey,
+    docStyle,
+  } = candidate;
+  const { model, maxContext, judge } = candidate.config.params;
+  const references = mock ? undefined : await getReferences(candidate);
+  const fileContext = mock
+    ? undefined
+    : await getFileContext(candidate, declText, docsText, references);
+  const signature = langOps.getSignature?.(match);
+  const res = mock
+    ? {
+        error: null,
+        json: mockDocComment("UPDATEDOC", signature),
+        usage: undefined,
+      }
+    : await runPrompt(
+        (_) => {
+          const declRef = _.def("DECLARATION", declText, { flex: 10 });
+          addFileContext(_, fileContext);
+          _.def("DOCSTRING", docsText, { flex: 10 });
+          langOps
+            .addUpdateDocPrompt(_, declKind, declRef, { style: docStyle })
+            .role("system");
+          addReferencesPrompt(_, references);
+        },
+        {
+          model,
+          responseType: "json_schema",
+          responseSchema: DOC_COMMENT_UPDATE_SCHEMA,
+          flexTokens: maxContext,
+          label: declText.slice(0, 20) + "...",
+          cache,
+          temperature: 0.2,
+          systemSafety: false,
+          system: ["system.technical", langOps.getLanguageSystemPromptName()],
+        }
+      );
+  fileStats.gen += res.usage?.total || 0;
+  fileStats.genCost += res.usage?.cost || 0;
+  // if generation is successful, insert the docs
+  if (res.error) {
+    output.warn(res.error.message);
+    return undefined;
+  }
 
-    const newDocs = getIndentedCommentText(
-      res.text.trim(),
-      docNodes[0],
-      langOps
+  const updatedDoc = parseDocComment(res.json);
+  if (!updatedDoc) {
+    output.warn(
+      `invalid documentation generated for ${declText.slice(0, 20)}...`
     );
-
-    // Ask LLM if change is worth it
-    const judgeRes =
-      mock || !judge
-        ? { label: "ok", usage: undefined, answer: undefined }
-        : await classify(
-            (_) => {
-              const declRef = _.def("DECLARATION", declText, { flex: 10 });
-              _.def("ORIGINAL_DOCS", docsText);
-              _.def("NEW_DOCS", newDocs);
-              _.$`An LLM generated an updated docstring <NEW_DOCS> for ${declKind} ${declRef}. The original docstring is <ORIGINAL_DOCS>.`;
-            },
-            {
-              APPLY:
-                "The <NEW_DOCS> is a significant improvement to <ORIGINAL_DOCS>.",
-              NIT: "The <NEW_DOCS> contains nitpicks (minor adjustments) to <ORIGINAL_DOCS>.",
-            },
-            {
-              model,
-              responseType: "text",
-              temperature: 0.2,
-              systemSafety: false,
-              cache,
-              system: [
-                "system.technical",
-                langOps.getLanguageSystemPromptName(),
-              ],
-            }
-          );
-
-    fileStats.judge += judgeRes.usage?.total || 0;
-    fileStats.judgeCost += judgeRes.usage?.cost || 0;
-    if (judgeRes.label === "NIT") {
-      output.warn("LLM suggests minor adjustments, skipping");
-      fileStats.nits++;
-      continue;
-    }
-    edits.replace(docNodes[0], newDocs.trimEnd());
-
-    // TODO: this is not accurate for C# and other languages where docNodes.length > 1, as it leaves whitespace hanging around
-    for (let i = 1; i < docNodes.length; i++) {
-      edits.replace(docNodes[i], "");
-    }
-    fileStats.updated++;
-    onUpdate();
+    return undefined;
   }
 
-  // apply all edits and write to the file
-  const modifiedFiles = edits.commit();
-  if (!modifiedFiles?.length) {
-    dbg("no edits to apply");
-    return;
+  if (updatedDoc.upToDate) {
+    dbg(`llm says docs are up to date, skipping`);
+    ledger?.set(ledgerKey, {
+      outcome: "up-to-date",
+      filename: file.filename,
+      kind: declKind,
+    });
+    return undefined;
   }
-  if (applyEdits) {
-    await workspace.writeFiles(modifiedFiles);
-  } else {
-    output.diff(file, modifiedFiles[0]);
+
+  const validation = validateDocComment(updatedDoc, signature);
+  fileStats[validation.verdict]++;
+  if (validation.verdict === "rejected") {
+    output.warn(
+      `rejected documentation for ${declText.slice(
+        0,
+        20
+      )}...: ${validation.issues.join(", ")}`
+    );
+    ledger?.set(ledgerKey, {
+      outcome: "refused",
+      filename: file.filename,
+      kind: declKind,
+    });
+    return undefined;
   }
-  dbg(
-    `updated ${file.filename} by updating ${fileStats.generated} existing comments`
+  const doc = validation.doc;
+
+  const newDocs = getIndentedCommentText(
+    doc,
+    docNodes[0],
+    match,
+    langOps,
+    docStyle
   );
+
+  // score the docs with the rubric of the judge, including the improvement over the original docs
+  const verdict =
+    !mock && judge ? await judgeDocs(candidate, newDocs, docsText) : "accepted";
+  if (verdict !== "accepted") {
+    ledger?.set(ledgerKey, {
+      outcome: verdict === "nit" ? "nit" : "refused",
+      filename: file.filename,
+      kind: declKind,
+    });
+    return undefined;
+  }
+  // some grammars include the line break in the comment node
+  const lastDocNode = docNodes.at(-1);
+  const replacement =
+    newDocs.trimEnd() + (/\n$/.test(lastDocNode.text()) ? "\n" : "");
+  return {
+    node: docNodes[0],
+    // replace the whole run of comment nodes, including the indentation between them
+    endPos: lastDocNode.range().end.index,
+    replacement,
+    docs: newDocs,
+  };
+}
+
+/** Whitespace before the node on its line, keeping the tabs of the source, e.g. in Go */
+function getIndentation(node: SgNode) {
+  const { line, column } = node.range().start;
+  const source = node.getRoot().root().text().split(/\r?\n/g)[line] ?? "";
+  return source.slice(0, column).replace(/\S/g, " ");
 }
 
 function getIndentedCommentText(
-  docs: string,
+  doc: DocComment,
   node: SgNode,
-  langOps: LanguageOps
+  decl: SgNode,
+  langOps: LanguageOps,
+  docStyle?: string
 ): string {
-  const range = node.range();
-  dbg(`node range: %o`, range);
-  const indentation = " ".repeat(range.start.column);
-  dbg(`indentation: %s`, indentation);
+  const indentation = getIndentation(node);
+  dbg(`indentation: <<<%s>>>`, indentation);
 
-  // TODO: Consider using a schema to restrict docs generation
-  docs = langOps.getCommentText(docs);
+  let docs = langOps.renderDocComment(doc, decl, docStyle);
 
   // normalize indentation
   docs = docs.replace(/\r?\n/g, (m) => m + indentation);
@@ -493,10 +1556,319 @@ function getLanguage(file: WorkspaceFile): SgLang {
     ? "python"
     : file.filename.endsWith(".cs") || file.filename.endsWith(".csx")
     ? "csharp"
+    : file.filename.endsWith(".go")
+    ? "go"
+    : file.filename.endsWith(".rs")
+    ? "rust"
+    : file.filename.endsWith(".java")
+    ? "java"
+    : /\.(js|jsx|mjs|cjs)$/.test(file.filename)
+    ? "javascript"
     : "typescript";
 }
 
-function getDeclNodeAndKind(decl: SgNode) {
-  const declKind = decl.kind();
+/** Parses a comma-separated list of entity kinds */
+function parseEntityKinds(kinds: string): EntityKind[] {
+  return kinds
+    .split(",")
+    .map((e: string) => e.trim())
+    .filter((e: string) => e) as EntityKind[];
+}
+
+/**
+ * Resolves the doc style of an entity, for languages with several doc styles.
+ * Existing docs keep their style, then the configured style applies, then the dominant
+ * style of the file and of the workspace files of the language.
+ */
+async function getDocStyle(
+  langOps: LanguageOps,
+  language: SgLang,
+  style: string,
+  docsText: string,
+  root: SgNode
+) {
+  if (!langOps.detectDocStyle) return undefined;
+  const configured = style === "rest" ? "sphinx" : style;
+  return (
+    (docsText && langOps.detectDocStyle(docsText)) ||
+    (configured && configured !== "auto" ? configured : undefined) ||
+    langOps.detectDocStyle(root.text()) ||
+    (await getWorkspaceDocStyle(langOps, language))
+  );
+}
+
+/** Dominant doc style of the workspace files of a language, computed once */
+function getWorkspaceDocStyle(langOps: LanguageOps, language: SgLang) {
+  let style = workspaceDocStyles.get(language);
+  if (!style) {
+    style = (async () => {
+      const texts: string[] = [];
+      for (const file of env.files)
+        if (getLanguage(file) === language)
+          texts.push(
+            file.content ??
+              (await workspace.readText(file.filename))?.content ??
+              ""
+          );
+      const detected = langOps.detectDocStyle(texts.join("\n"));
+      dbg(`%s workspace doc style: %s`, language, detected);
+      return detected;
+    })();
+    workspaceDocStyles.set(language, style);
+  }
+  return style;
+}
+
+/**
+ * Selects the documented entities passed as examples to document a candidate,
+ * rendered within a quarter of the context budget.
+ */
+async function getFewShotExamples(candidate: Candidate) {
+  const { file, langOps, match, kind, declKind, declText } = candidate;
+  const { model, maxContext, fewShot, fewShotSelection } =
+    candidate.config.params;
+  if (!fewShot) return undefined;
+  const { examples } = await getWorkspaceEntities(langOps, getLanguage(file));
+  const selected = selectExamples(
+    examples,
+    {
+      filename: file.filename,
+      kind,
+      declKind,
+      container: getContainerName(match),
+      signature: getSignatureLine(declText),
+      line: match.range().start.line,
+    },
+    fewShot,
+    fewShotSelection
+  );
+  return await renderWithinBudget(
+    selected.map(renderExample),
+    Math.floor(maxContext / 4),
+    model,
+    "\n\n"
+  );
+}
+
+/**
+ * Resolves the types, base types and functions referenced by a candidate to their
+ * declarations in the other files, rendered within the references budget.
+ */
+async function getReferences(candidate: Candidate) {
+  const { file, langOps, match } = candidate;
+  const { model, referencesContext } = candidate.config.params;
+  const rule = langOps.getReferencesMatcher?.();
+  if (!referencesContext || !rule) return undefined;
+  const name = getDeclarationName(match);
+  const names = match
+    .findAll({ rule })
+    .map((n) => n.text())
+    .filter((n) => n !== name);
+  const { symbols } = await getWorkspaceEntities(langOps, getLanguage(file));
+  const selected = selectReferences(
+    symbols,
+    names,
+    file.filename,
+    match.getRoot().root().text()
+  );
+  return await renderWithinBudget(
+    selected.map(renderReference),
+    referencesContext,
+    model,
+    "\n"
+  );
+}
+
+/**
+ * Source of the file sent with an entity: the full file when it fits in the context
+ * left by the other sections of the prompt, otherwise the focused context of the entity.
+ */
+async function getFileContext(
+  candidate: Candidate,
+  ...sections: (string | undefined)[]
+) {
+  const { file, langOps, match } = candidate;
+  const { model, maxContext } = candidate.config.params;
+  const text = match.getRoot().root().text();
+  let budget = maxContext;
+  for (const section of sections)
+    if (section) budget -= await tokenizers.count(section, { model });
+  let tokens = fileTokens.get(file.filename);
+  if (!tokens) {
+    tokens = tokenizers.count(text, { model });
+    fileTokens.set(file.filename, tokens);
+  }
+  if ((await tokens) <= budget) return { text, focused: false };
+  dbg(`%s: %d tokens exceed %d, focusing`, file.filename, await tokens, budget);
+  const focused = getFocusedContext(match, {
+    name: getDeclarationName(match),
+    imports: langOps.getImportsMatcher?.(),
+    references: langOps.getReferencesMatcher?.(),
+  });
+  return { text: focused, focused: true };
+}
+
+/** Adds the source of the file to a prompt, explaining the elided lines of a focused context */
+function addFileContext(
+  _: ChatGenerationContext,
+  fileContext: { text: string; focused: boolean }
+) {
+  const fileRef = _.def("FILE", fileContext.text, { flex: 1 });
+  if (fileContext.focused)
+    _.$`The file is too large to be sent in full: ${fileRef} only contains its imports, the enclosing declarations with the signatures of their members, the neighboring declarations and the code referencing the entity. Elided lines are replaced by "...".`.role(
+      "system"
+    );
+  return fileRef;
+}
+
+/**
+ * Adds the declarations referenced from other files to a prompt. They are part of
+ * the prompt, hence of the cache key of the request.
+ */
+function addReferencesPrompt(_: ChatGenerationContext, references?: string) {
+  if (!references) return;
+  const referencesRef = _.def("REFERENCES", references);
+  _.$`The signatures and doc summaries of the declarations from other files referenced by the code are in ${referencesRef}. Use them to describe the parameters and calls accurately, do not document them.`.role(
+    "system"
+  );
+}
+
+/** Joins the texts fitting in the token budget, in order */
+async function renderWithinBudget(
+  texts: string[],
+  budget: number,
+  model: string,
+  separator: string
+) {
+  const rendered: string[] = [];
+  let tokens = 0;
+  for (const text of texts) {
+    const n = await tokenizers.count(text, { model });
+    if (tokens + n > budget) {
+      dbg(`%d tokens exceed the budget, skipping`, n);
+      continue;
+    }
+    rendered.push(text);
+    tokens += n;
+  }
+  dbg(`rendered %d of %d, %d tokens`, rendered.length, texts.length, tokens);
+  return rendered.join(separator) || undefined;
+}
+
+/**
+ * Entities of the workspace files of a language, collected once: the documented entities
+ * used as examples and the named types and functions that can be referenced.
+ */
+function getWorkspaceEntities(langOps: LanguageOps, language: SgLang) {
+  let entities = workspaceEntities.get(language);
+  if (!entities) {
+    entities = (async () => {
+      const examples: DocExample[] = [];
+      const symbols: SymbolIndex = new Map();
+      for (const file of env.files) {
+        if (getLanguage(file) !== language) continue;
+        const content =
+          file.content ?? (await workspace.readText(file.filename))?.content;
+        if (!content) continue;
+        const { filename } = file;
+        const root = (
+          await sg.parse({ filename, content }, { lang: language })
+        ).root();
+        const seen = new Set<string>();
+        for (const kind of ENTITY_KINDS)
+          for (const withComments of [true, false]) {
+            const rule = langOps.getCommentableNodesMatcher(
+              [kind],
+              withComments,
+              false
+            );
+            for (const match of root.findAll({ rule })) {
+              // a node matched by several kinds is collected once
+              const key = `${match.range().start.index}:${match.kind()}`;
+              if (seen.has(key)) continue;
+              seen.add(key);
+              const { declNode, declKind } = getDeclNodeAndKind(match, langOps);
+              const signature = getSignatureLine(
+                getDeclText(declNode, langOps)
+              );
+              const docs = withComments
+                ? langOps
+                    .getCommentNodes(match)
+                    .map((n) => dedentComment(n.text(), n.range().start.column))
+                    .join("\n")
+                    .trim()
+                : "";
+              if (docs)
+                examples.push({
+                  filename,
+                  kind,
+                  declKind,
+                  container: getContainerName(match),
+                  signature,
+                  docs,
+                  line: match.range().start.line,
+                });
+              const name =
+                kind === "type" || kind === "function"
+                  ? getDeclarationName(match)
+                  : undefined;
+              if (name) {
+                const declarations = symbols.get(name) || [];
+                declarations.push({
+                  name,
+                  filename,
+                  declKind,
+                  signature,
+                  summary: docs ? getDocSummary(docs) : undefined,
+                });
+                symbols.set(name, declarations);
+              }
+            }
+          }
+      }
+      dbg(
+        `%s workspace entities: %d examples, %d symbols`,
+        language,
+        examples.length,
+        symbols.size
+      );
+      return { examples, symbols };
+    })();
+    workspaceEntities.set(language, entities);
+  }
+  return entities;
+}
+
+/** Name of the closest enclosing declaration of a node, e.g. the class of a method */
+function getContainerName(node: SgNode) {
+  for (let parent = node.parent(); parent; parent = parent.parent()) {
+    const name = parent.field("name");
+    if (name) return name.text();
+  }
+  return undefined;
+}
+
+/** First line of a declaration, shortened */
+function getSignatureLine(declText: string) {
+  const line =
+    declText
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .find(Boolean) ?? "";
+  return line.length > 120 ? line.slice(0, 120) + "..." : line;
+}
+
+function getDeclText(declNode: SgNode, langOps: LanguageOps) {
+  return langOps.getDeclarationText?.(declNode) ?? declNode.text();
+}
+
+/** Short label of a declaration used in messages */
+function getDeclLabel(declText: string) {
+  const line = declText.trim().split(/\r?\n/)[0];
+  return `\`${line.length > 40 ? line.slice(0, 40) + "..." : line}\``;
+}
+
+function getDeclNodeAndKind(decl: SgNode, langOps: LanguageOps) {
+  const declKind = langOps.getDeclarationKind?.(decl) ?? decl.kind();
   return { declNode: decl, declKind };
 }
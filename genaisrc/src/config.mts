@@ -0,0 +1,316 @@
+const dbg = host.logger("script:config");
+
+import { ENTITY_KINDS } from "./coverage.mts";
+import { createPathMatcher } from "./ignore.mts";
+
+/** Repository configuration files, in lookup order */
+export const CONFIG_FILENAMES = [
+  ".genai-commentor.yml",
+  ".genai-commentor.yaml",
+  ".genai-commentor.json",
+];
+
+/** Parameters that can be scoped to languages and paths, the other parameters apply to the whole run */
+export const FILE_PARAMETERS = [
+  "model",
+  "instructions",
+  "docstringStyle",
+  "fewShot",
+  "fewShotSelection",
+  "referencesContext",
+  "judge",
+  "judgeThreshold",
+  "judgeMinConfidence",
+  "addMissing",
+  "updateExisting",
+  "maxEdits",
+  "kinds",
+  "exportsOnly",
+  "maxContext",
+];
+
+const LANGUAGES: SgLang[] = [
+  "typescript",
+  "javascript",
+  "python",
+  "csharp",
+  "go",
+  "rust",
+  "java",
+];
+
+type Parameters = Record<string, any>;
+
+/** Parameters scoped to the files matching gitignore-style globs */
+type ConfigOverride = Parameters & { files: string | string[] };
+
+export type ConfigFile = {
+  /** Defaults of the script parameters */
+  defaults?: Parameters;
+  /** Parameters scoped to a language, e.g. `instructions` */
+  languages?: Partial<Record<SgLang, Parameters>>;
+  /** Parameters scoped to paths, applied in order after the language parameters */
+  overrides?: ConfigOverride[];
+};
+
+/** Edit budget shared by the files of a language or override */
+export type EditQuota = {
+  scope: string;
+  limit: number;
+  edits: number;
+  /** Edits reserved by the running requests */
+  running: number;
+};
+
+/** Parameters in effect for a file */
+export type FileConfig = {
+  params: Parameters;
+  quotas: EditQuota[];
+};
+
+/** Accepts the action input names, e.g. `max_edits` for `maxEdits` */
+function camelCaseKeys(params: unknown) {
+  if (!params || typeof params !== "object" || Array.isArray(params))
+    return params;
+  return Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [
+      key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase()),
+      value,
+    ])
+  );
+}
+
+function normalizeConfig(data: any) {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return data;
+  const { defaults, languages, overrides } = data;
+  return {
+    ...data,
+    ...(defaults !== undefined ? { defaults: camelCaseKeys(defaults) } : {}),
+    ...(languages && typeof languages === "object"
+      ? {
+          languages: Object.fromEntries(
+            Object.entries(languages).map(([language, params]) => [
+              language,
+              camelCaseKeys(params),
+            ])
+          ),
+        }
+      : {}),
+    ...(Array.isArray(overrides)
+      ? { overrides: overrides.map(camelCaseKeys) }
+      : {}),
+  };
+}
+
+function getParameterSchema(parameter: any): JSONSchemaSimpleType {
+  if (parameter && typeof parameter === "object") {
+    const { type, description, minimum, maximum, enum: values } = parameter;
+    return Object.fromEntries(
+      Object.entries({
+        type,
+        description,
+        minimum,
+        maximum,
+        enum: values,
+      }).filter(([, value]) => value !== undefined)
+    ) as JSONSchemaSimpleType;
+  }
+  return { type: typeof parameter } as JSONSchemaSimpleType;
+}
+
+/**
+ * Declares the script with the genaiscript `script` global and returns its arguments.
+ * genaiscript parses the metadata from the source of the `script({ ... })` call, which must
+ * stay an object literal, and does not expose the parameters at runtime.
+ */
+export function declareScript(args: PromptArgs): PromptArgs {
+  script(args);
+  return args;
+}
+
+/** JSON schema of the configuration file, derived from the script parameters */
+export function createConfigSchema(
+  parameters: PromptParametersSchema
+): JSONSchemaObject {
+  const properties: Record<string, JSONSchemaSimpleType> = {
+    ...Object.fromEntries(
+      Object.entries(parameters).map(([name, parameter]) => [
+        name,
+        getParameterSchema(parameter),
+      ])
+    ),
+    addMissing: { type: "boolean", description: "Generate missing docs." },
+  };
+  const kinds = `(${ENTITY_KINDS.join("|")})`;
+  if (properties.kinds)
+    properties.kinds = {
+      ...properties.kinds,
+      pattern: `^\\s*${kinds}(\\s*,\\s*${kinds})*\\s*$`,
+    } as JSONSchemaString;
+  const fileProperties = Object.fromEntries(
+    Object.entries(properties).filter(([name]) =>
+      FILE_PARAMETERS.includes(name)
+    )
+  );
+  const fileSchema: JSONSchemaObject = {
+    type: "object",
+    additionalProperties: false,
+    properties: fileProperties,
+  };
+  return {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      $schema: { type: "string" },
+      defaults: {
+        type: "object",
+        additionalProperties: false,
+        properties,
+      },
+      languages: {
+        type: "object",
+        additionalProperties: false,
+        properties: Object.fromEntries(
+          LANGUAGES.map((language) => [language, fileSchema])
+        ),
+      },
+      overrides: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["files"],
+          properties: {
+            files: {
+              anyOf: [
+                { type: "string" },
+                { type: "array", items: { type: "string" } },
+              ],
+            },
+            ...fileProperties,
+          },
+        },
+      },
+    },
+  };
+}
+
+/** Loads and validates the first configuration file found at the root of the workspace */
+export async function loadConfig(schema: JSONSchemaObject) {
+  for (const filename of CONFIG_FILENAMES) {
+    const file = await workspace.readText(filename);
+    if (!file?.content) continue;
+    const json = filename.endsWith(".json");
+    let data: any;
+    try {
+      data = json ? JSON.parse(file.content) : YAML.parse(file.content);
+    } catch (e) {
+      throw new Error(
+        `${filename}: invalid ${json ? "JSON" : "YAML"}, ${e.message}`
+      );
+    }
+    const config = normalizeConfig(data ?? {});
+    const { schemaError } = parsers.validateJSON(schema, config);
+    if (schemaError) throw new Error(`${filename}: ${schemaError}`);
+    dbg(`loaded %s`, filename);
+    return new RepositoryConfig(filename, config as ConfigFile);
+  }
+  dbg(`no configuration file found`);
+  return new RepositoryConfig(undefined, {});
+}
+
+/**
+ * Repository configuration: defaults of the script parameters, then parameters scoped
+ * to languages and paths. The maxEdits of a language or path is a quota shared by its files.
+ */
+export class RepositoryConfig {
+  private readonly quotas = new Map<string, EditQuota>();
+  private readonly overrides: {
+    scope: string;
+    matches: (filename: string) => boolean;
+    params: Parameters;
+  }[];
+
+  readonly filename: string | undefined;
+  private readonly config: ConfigFile;
+
+  constructor(filename: string | undefined, config: ConfigFile) {
+    this.filename = filename;
+    this.config = config;
+    this.overrides = (config.overrides || []).map(({ files, ...params }, i) => {
+      const globs = Array.isArray(files) ? files : [files];
+      return {
+        scope: `overrides[${i}] (${globs.join(", ")})`,
+        matches: createPathMatcher(globs),
+        params,
+      };
+    });
+  }
+
+  /** True if some parameters are scoped to languages or paths */
+  get scoped() {
+    return (
+      !!this.overrides.length ||
+      !!Object.keys(this.config.languages || {}).length
+    );
+  }
+
+  /**
+   * Resolves the parameters of the run. Inputs set to a value other than their default
+   * take precedence over the defaults of the configuration file.
+   * The parameters are read by name: the keys of `env.vars` are normalized to lower case.
+   */
+  resolveRunParameters(
+    parameters: PromptParametersSchema,
+    vars: Parameters
+  ): Parameters {
+    const run: Parameters = {};
+    const explicit: Parameters = {};
+    for (const [name, parameter] of Object.entries(parameters)) {
+      const value = vars[name];
+      if (value === undefined) continue;
+      run[name] = value;
+      const defaultValue =
+        parameter && typeof parameter === "object"
+          ? (parameter as { default?: unknown }).default
+          : parameter;
+      if (value !== defaultValue) explicit[name] = value;
+    }
+    return { ...run, ...this.config.defaults, ...explicit };
+  }
+
+  /** Resolves the parameters in effect for a file, from the run parameters */
+  resolveFileConfig(
+    run: Parameters,
+    filename: string,
+    language: SgLang
+  ): FileConfig {
+    const params = { ...run };
+    const quotas: EditQuota[] = [];
+    const apply = (scope: string, scoped: Parameters) => {
+      const { maxEdits, ...rest } = scoped;
+      Object.assign(params, rest);
+      if (maxEdits !== undefined) quotas.push(this.getQuota(scope, maxEdits));
+    };
+    const languageParams = this.config.languages?.[language];
+    if (languageParams) apply(`languages.${language}`, languageParams);
+    for (const { scope, matches, params: scoped } of this.overrides)
+      if (matches(filename)) apply(scope, scoped);
+    dbg(
+      `%s: %o, quotas: %o`,
+      filename,
+      Object.fromEntries(FILE_PARAMETERS.map((name) => [name, params[name]])),
+      quotas.map((q) => `${q.scope}: ${q.limit}`)
+    );
+    return { params, quotas };
+  }
+
+  private getQuota(scope: string, limit: number) {
+    let quota = this.quotas.get(scope);
+    if (!quota) {
+      quota = { scope, limit, edits: 0, running: 0 };
+      this.quotas.set(scope, quota);
+    }
+    return quota;
+  }
+}
@@ -0,0 +1,137 @@
+const dbg = host.logger("script:context");
+
+/** Rules used to focus the context of an entity */
+export type FocusedContextOptions = {
+  /** Name of the entity, to find its callers */
+  name?: string;
+  /** Matches the imports of the file */
+  imports?: SgRule;
+  /** Matches the identifiers referenced by the code, see `LanguageOps.getReferencesMatcher` */
+  references?: SgRule;
+};
+
+/** Neighboring declarations longer than this are reduced to their header */
+const MAX_NEIGHBOR_LINES = 15;
+/** Maximum number of declarations referencing the entity */
+const MAX_CALLERS = 5;
+
+/** Lines of the file kept in the focused context, 0-based and inclusive */
+class LineSet {
+  readonly lines = new Set<number>();
+  add(start: number, end: number = start) {
+    for (let line = start; line <= end; line++) this.lines.add(line);
+  }
+  addNode(node: SgNode) {
+    const { start, end } = node.range();
+    this.add(start.line, end.line);
+  }
+}
+
+function isComment(node: SgNode) {
+  return /comment/.test(node.kind());
+}
+
+/** Name of a declaration, looking through wrappers such as Python decorated definitions */
+function getNameNode(node: SgNode) {
+  return node.field("name") ?? node.field("definition")?.field("name");
+}
+
+/** Adds the lines of a declaration up to its name, e.g. its decorators, modifiers and signature */
+function addHeader(lines: LineSet, node: SgNode) {
+  const start = node.range().start.line;
+  const name = getNameNode(node);
+  lines.add(start, Math.max(start, name?.range().end.line ?? start));
+}
+
+/** Adds the skeleton of a container: its header, the headers of its members and its closing line */
+function addSkeleton(lines: LineSet, container: SgNode, members: SgNode[]) {
+  const body = container.field("body");
+  if (body) lines.add(container.range().start.line, body.range().start.line);
+  for (const member of members)
+    if (member.isNamed() && getNameNode(member)) addHeader(lines, member);
+  if (body && body.text().trimEnd().endsWith("}"))
+    lines.add(container.range().end.line);
+}
+
+/**
+ * Builds the context of an entity in a file too large to be sent in full:
+ * the imports, the skeleton of the enclosing declarations with the signatures
+ * of their members, the neighboring declarations and the declarations referencing
+ * the entity. Elided lines are marked with `...`.
+ */
+export function getFocusedContext(
+  match: SgNode,
+  options: FocusedContextOptions
+): string {
+  const { name, imports, references } = options;
+  const root = match.getRoot().root();
+  const lines = new LineSet();
+
+  if (imports)
+    for (const node of root.findAll({ rule: imports })) lines.addNode(node);
+
+  // enclosing declarations, e.g. classes, namespaces and impl blocks,
+  // or the top-level declarations of a module
+  const parent = match.parent();
+  if (!parent) addSkeleton(lines, match, match.children());
+  else addHeader(lines, match);
+  for (const ancestor of match.ancestors()) {
+    const body = ancestor.field("body");
+    if (body && (getNameNode(ancestor) || ancestor.field("type")))
+      addSkeleton(lines, ancestor, body.children());
+  }
+
+  // closest declarations before and after the entity
+  const neighbors = [
+    match.prevAll().find((n) => n.isNamed() && !isComment(n)),
+    match.nextAll().find((n) => n.isNamed() && !isComment(n)),
+  ].filter(Boolean);
+  for (const neighbor of neighbors) {
+    const { start, end } = neighbor.range();
+    if (end.line - start.line < MAX_NEIGHBOR_LINES) lines.addNode(neighbor);
+    else addHeader(lines, neighbor);
+  }
+
+  // declarations calling or using the entity, with the referencing line
+  let callers = 0;
+  if (name && references) {
+    const { start, end } = match.range();
+    const seen = new Set<number>();
+    for (const node of root.findAll({ rule: references })) {
+      if (node.text() !== name) continue;
+      const index = node.range().start.index;
+      if (index >= start.index && index < end.index) continue;
+      const caller = node
+        .ancestors()
+        .find((a) => a.parent() && getNameNode(a) && a.field("body"));
+      const key = caller?.range().start.index ?? -1;
+      if (!seen.has(key)) {
+        if (seen.size >= MAX_CALLERS) continue;
+        seen.add(key);
+        if (caller) addHeader(lines, caller);
+      }
+      lines.add(node.range().start.line);
+      callers++;
+    }
+  }
+
+  const source = root.text().split(/\r?\n/g);
+  const kept = [...lines.lines].sort((l, r) => l - r);
+  const res: string[] = [];
+  let previous = -1;
+  for (const line of kept) {
+    // a single elided line is kept, it is as short as the marker
+    if (line === previous + 2) res.push(source[line - 1]);
+    else if (line > previous + 1) res.push("...");
+    res.push(source[line]);
+    previous = line;
+  }
+  if (previous < source.length - (source.at(-1) ? 1 : 2)) res.push("...");
+  dbg(
+    `focused context: %d of %d lines, %d references`,
+    kept.length,
+    source.length,
+    callers
+  );
+  return res.join("\n");
+}
@@ -0,0 +1,139 @@
+const dbg = host.logger("script:coverage");
+
+import type { EntityKind } from "./langops.mts";
+
+export const ENTITY_KINDS: EntityKind[] = [
+  "module",
+  "type",
+  "function",
+  "property",
+  "variable",
+];
+
+/** Number of documented and undocumented entities of a kind in a file */
+export type CoverageEntry = {
+  filename: string;
+  language: string;
+  kind: EntityKind;
+  documented: number;
+  undocumented: number;
+};
+
+export type CoverageSummary = {
+  documented: number;
+  undocumented: number;
+  total: number;
+  /** Percentage of documented entities, 100 when there are no entities */
+  coverage: number;
+};
+
+/** Minimum coverage percentages, overall or per entity kind */
+export type CoverageThresholds = {
+  overall?: number;
+  kinds: Partial<Record<EntityKind, number>>;
+};
+
+export type CoverageReport = {
+  exportsOnly: boolean;
+  overall: CoverageSummary;
+  kinds: Record<string, CoverageSummary>;
+  languages: Record<string, CoverageSummary>;
+  files: Record<string, CoverageSummary & { language: string }>;
+  thresholds: CoverageThresholds;
+  failures: string[];
+};
+
+/**
+ * Parses a minimum coverage specification such as `80` or `80,function=100,type=90`.
+ * An entry without a kind is the overall threshold.
+ */
+export function parseCoverageThresholds(spec: string): CoverageThresholds {
+  const thresholds: CoverageThresholds = { kinds: {} };
+  for (const entry of (spec || "")
+    .split(",")
+    .map((e) => e.trim())
+    .filter(Boolean)) {
+    const m = /^(?:(\w+)\s*=\s*)?(\d+(?:\.\d+)?)%?$/.exec(entry);
+    const value = m ? parseFloat(m[2]) : NaN;
+    if (!m || value > 100)
+      throw new Error(
+        `invalid min_coverage entry '${entry}', expected a percentage such as '80' or 'function=100'`
+      );
+    const kind = m[1] as EntityKind;
+    if (!kind) thresholds.overall = value;
+    else if (ENTITY_KINDS.includes(kind)) thresholds.kinds[kind] = value;
+    else
+      throw new Error(
+        `invalid min_coverage kind '${kind}', expected one of ${ENTITY_KINDS.join(
+          ", "
+        )}`
+      );
+  }
+  dbg(`thresholds: %o`, thresholds);
+  return thresholds;
+}
+
+function summarize(entries: CoverageEntry[]): CoverageSummary {
+  const documented = entries.reduce((n, e) => n + e.documented, 0);
+  const undocumented = entries.reduce((n, e) => n + e.undocumented, 0);
+  const total = documented + undocumented;
+  const coverage = total ? (documented / total) * 100 : 100;
+  return { documented, undocumented, total, coverage };
+}
+
+function groupBy(
+  entries: CoverageEntry[],
+  key: (e: CoverageEntry) => string
+): Record<string, CoverageSummary> {
+  const groups: Record<string, CoverageEntry[]> = {};
+  for (const e of entries) (groups[key(e)] ??= []).push(e);
+  return Object.fromEntries(
+    Object.entries(groups).map(([k, v]) => [k, summarize(v)])
+  );
+}
+
+/** Aggregates the coverage entries and checks the thresholds */
+export function createCoverageReport(
+  entries: CoverageEntry[],
+  thresholds: CoverageThresholds,
+  exportsOnly: boolean
+): CoverageReport {
+  const overall = summarize(entries);
+  const kinds = groupBy(entries, (e) => e.kind);
+  const languages = groupBy(entries, (e) => e.language);
+  const files = Object.fromEntries(
+    Object.entries(groupBy(entries, (e) => e.filename)).map(([f, s]) => [
+      f,
+      { ...s, language: entries.find((e) => e.filename === f).language },
+    ])
+  );
+
+  const failures: string[] = [];
+  if (thresholds.overall !== undefined && overall.coverage < thresholds.overall)
+    failures.push(
+      `overall coverage ${formatCoverage(overall)} is below ${
+        thresholds.overall
+      }%`
+    );
+  for (const [kind, min] of Object.entries(thresholds.kinds)) {
+    const summary = kinds[kind];
+    if (summary && summary.coverage < min)
+      failures.push(
+        `${kind} coverage ${formatCoverage(summary)} is below ${min}%`
+      );
+  }
+
+  return {
+    exportsOnly,
+    overall,
+    kinds,
+    languages,
+    files,
+    thresholds,
+    failures,
+  };
+}
+
+export function formatCoverage(summary: CoverageSummary) {
+  return `${summary.coverage.toFixed(1)}%`;
+}
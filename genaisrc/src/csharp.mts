@@ -1,12 +1,160 @@
 const dbg = host.logger("script:csharp");
 
-import type { EntityKind, LanguageOps } from "./langops.mts";
+import { examplesHint, lineComment, lines, type DocComment } from "./docs.mts";
+import {
+  applyIgnorePragmas,
+  IGNORE_NEXT_PRAGMA,
+  type PragmaOptions,
+} from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+import type { DocSignature } from "./validate.mts";
+
+/** XML doc inline tags that may be used in descriptions */
+const XML_DOC_INLINE_TAGS =
+  "see|seealso|paramref|typeparamref|c|code|para|br|list|item|term|description|b|i";
+
+/** Escapes the XML special characters that are not part of an entity or a doc tag */
+function xmlText(text: string) {
+  return text
+    .replace(/&(?!(\w+|#\d+);)/g, "&amp;")
+    .replace(new RegExp(`<(?!/?(${XML_DOC_INLINE_TAGS})\\b)`, "g"), "&lt;");
+}
+
+const TYPE_KINDS = [
+  "class_declaration",
+  "struct_declaration",
+  "interface_declaration",
+  "enum_declaration",
+  "record_declaration",
+];
+
+/** public or protected, but not private protected */
+const accessible: SgRule = {
+  any: [
+    { has: { kind: "modifier", regex: "^public$" } },
+    {
+      has: { kind: "modifier", regex: "^protected$" },
+      not: { has: { kind: "modifier", regex: "^private$" } },
+    },
+  ],
+};
+
+/** interface and enum members inherit the visibility of their container */
+const visible: SgRule = {
+  any: [
+    accessible,
+    { kind: "namespace_declaration" },
+    { kind: "enum_member_declaration" },
+    {
+      inside: {
+        kind: "declaration_list",
+        inside: { kind: "interface_declaration" },
+      },
+    },
+  ],
+};
+
+/** a visible member whose containing types are all visible */
+const publicSurface: SgRule = {
+  all: [
+    visible,
+    {
+      not: {
+        inside: {
+          all: [
+            { any: TYPE_KINDS.map((kind) => ({ kind })) },
+            { not: visible },
+          ],
+          stopBy: "end",
+        },
+      },
+    },
+  ],
+};
+
+const FUNCTION_KINDS = [
+  "method_declaration",
+  "constructor_declaration",
+  "delegate_declaration",
+  "operator_declaration",
+  "conversion_operator_declaration",
+];
+
+/** Parameter names, undefined if the list could not be parsed into parameters */
+function getParams(decl: SgNode): string[] | undefined {
+  const list = decl.children().find((n) => n.kind() === "parameter_list");
+  if (!list) return [];
+  const params = list
+    .children()
+    .filter((n) => n.isNamed() && n.kind() !== "comment");
+  if (params.some((p) => p.kind() !== "parameter")) return undefined;
+  return params.map((p) => p.field("name")?.text());
+}
+
+function getTypeParams(decl: SgNode) {
+  return (
+    decl
+      .children()
+      .find((n) => n.kind() === "type_parameter_list")
+      ?.children()
+      .filter((n) => n.kind() === "type_parameter")
+      .map((n) => n.field("name")?.text() ?? n.text()) ?? []
+  );
+}
+
+/** Identifiers of the types, base types and called methods referenced in a declaration */
+const references: SgRule = {
+  any: [
+    { kind: "identifier", inside: { kind: "base_list" } },
+    { kind: "identifier", inside: { kind: "type_argument_list" } },
+    { kind: "identifier", inside: { kind: "generic_name" } },
+    {
+      kind: "identifier",
+      inside: {
+        any: [
+          { kind: "parameter" },
+          { kind: "property_declaration" },
+          { kind: "field_declaration" },
+          { kind: "variable_declaration" },
+          { kind: "object_creation_expression" },
+        ],
+        field: "type",
+      },
+    },
+    {
+      kind: "identifier",
+      inside: { kind: "method_declaration", field: "returns" },
+    },
+    {
+      kind: "identifier",
+      inside: { kind: "invocation_expression", field: "function" },
+    },
+    {
+      kind: "identifier",
+      inside: {
+        kind: "member_access_expression",
+        field: "name",
+        inside: { kind: "invocation_expression", field: "function" },
+      },
+    },
+  ],
+};
+
+/** Imports of a file, kept in the focused context of large files */
+const imports: SgRule = { kind: "using_directive" };
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "compilation_unit",
+  comments: ["comment"],
+};
 
 class CSharp implements LanguageOps {
   getCommentableNodesMatcher(
     entityKinds: EntityKind[],
     withComments: boolean,
-    exportsOnly: boolean
+    exportsOnly: boolean,
+    ignored?: boolean
   ) {
     const declKindsRaw: SgRule = {
       any: [
@@ -42,25 +190,30 @@ class CSharp implements LanguageOps {
           : null,
       ].filter(Boolean) as SgRule[],
     };
-    // If export only then require an 'export'
-    const declKinds: SgRule = {
-      any: [
-        declKindsRaw,
-        // exportsOnly ? { any: [] } : declKindsRaw,
-        // {
-        //   kind: "export_statement",
-        //   has: declKindsRaw,
-        // },
-      ],
-    };
+    // If export only then require a public or protected member in visible types
+    const declKinds: SgRule = exportsOnly
+      ? { all: [declKindsRaw, publicSurface] }
+      : declKindsRaw;
+    // local functions never get XML docs
     const inside: SgRule = {
       inside: {
-        all: [],
+        any: [
+          {
+            kind: "compilation_unit",
+          },
+          {
+            kind: "declaration_list",
+          },
+          {
+            kind: "enum_member_declaration_list",
+          },
+        ],
       },
     };
     const withDocComment: SgRule = {
       follows: {
         kind: "comment",
+        not: { regex: IGNORE_NEXT_PRAGMA },
         stopBy: "neighbor",
       },
     };
@@ -70,14 +223,21 @@ class CSharp implements LanguageOps {
           not: withDocComment,
         };
 
-    return { ...declKinds, ...inside, ...docsRule };
+    return applyIgnorePragmas(
+      { ...declKinds, ...inside, ...docsRule },
+      pragmas,
+      ignored
+    );
   }
 
   getCommentNodes(node: SgNode) {
-    const commentNodes = [];
+    // return the comment lines in source order
+    const commentNodes: SgNode[] = [];
     while (node && node.prev() && node.prev().kind() === "comment") {
       node = node.prev();
-      commentNodes.push(node);
+      // the doc comment may follow an ignore pragma
+      if (node.text().includes(IGNORE_NEXT_PRAGMA)) break;
+      commentNodes.unshift(node);
     }
     return commentNodes;
   }
@@ -86,39 +246,98 @@ class CSharp implements LanguageOps {
     return node;
   }
 
+  getSignature(decl: SgNode): DocSignature | undefined {
+    const kind = decl.kind();
+    if (TYPE_KINDS.includes(kind))
+      return {
+        params: getParams(decl),
+        typeParams: getTypeParams(decl),
+        returns: false,
+      };
+    if (!FUNCTION_KINDS.includes(kind)) return undefined;
+    const returnType =
+      decl.field("returns") ??
+      (kind === "delegate_declaration" ? decl.field("type") : undefined);
+    return {
+      params: getParams(decl),
+      typeParams: getTypeParams(decl),
+      returns:
+        kind === "constructor_declaration"
+          ? false
+          : returnType
+          ? !/^(void|Task|ValueTask)$/.test(returnType.text())
+          : undefined,
+    };
+  }
+
+  getImportsMatcher() {
+    return imports;
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
+
   getLanguageSystemPromptName() {
     return "system.csharp";
   }
-  getCommentText(docs: string) {
-    docs = parsers.unfence(docs, "*");
-
-    docs = `/// ${docs
-      .split(/\r?\n/g)
-      .map((s) => s.trim())
-      .join("/// ")}`;
-    return docs;
+  renderDocComment(doc: DocComment) {
+    const element = (name: string, text: string, attrs: string = "") =>
+      text ? [`<${name}${attrs}>`, ...lines(xmlText(text)), `</${name}>`] : [];
+    const inline = (name: string, attrs: string, text: string) =>
+      `<${name}${attrs}>${xmlText(text).replace(/\r?\n/g, " ")}</${name}>`;
+    const content = [
+      ...element("summary", doc.summary),
+      ...doc.typeParams.map((p) =>
+        inline("typeparam", ` name="${p.name}"`, p.description)
+      ),
+      ...doc.params.map((p) =>
+        inline("param", ` name="${p.name}"`, p.description)
+      ),
+      ...(doc.returns.description
+        ? [inline("returns", "", doc.returns.description)]
+        : []),
+      ...doc.throws.map((t) =>
+        inline("exception", t.type ? ` cref="${t.type}"` : "", t.description)
+      ),
+      // C# marks deprecation with [Obsolete], mention it in the remarks
+      ...element(
+        "remarks",
+        [doc.remarks, doc.deprecated && `Deprecated: ${doc.deprecated}`]
+          .filter(Boolean)
+          .join("\n")
+      ),
+      ...doc.examples.flatMap((e) => [
+        "<example>",
+        "<code>",
+        ...lines(xmlText(e)),
+        "</code>",
+        "</example>",
+      ]),
+    ];
+    return lineComment(content, "///");
   }
   addGenerateDocPrompt(
     _: ChatGenerationContext,
     declKind: any,
     declRef: string,
-    fileRef: string
+    fileRef: string,
+    options?: DocPromptOptions
   ) {
-    return _.$`Generate a C# documentation comment for the ${declKind} ${declRef}.
-- Make sure parameters, type parameters, and return types are documented if relevant.
+    const examples = examplesHint(options);
+    return _.$`Generate the C# documentation for the ${declKind} ${declRef}.
+- Make sure parameters, type parameters, return values and exceptions are documented if relevant.
 - Be concise. Use a technical tone.
-- Do NOT include types, this is for C#.
-- Use XML doc syntax.
-The full source of the file is in ${fileRef} for reference.`;
+- Do NOT include types, this is for C#. Descriptions may use XML doc inline tags such as <see cref="Name"/>, <paramref name="name"/> and <c>value</c>.
+${examples}The full source of the file is in ${fileRef} for reference.`;
   }
 
   addUpdateDocPrompt(_: ChatGenerationContext, declKind: any, declRef: string) {
     return _.$`Update the C# docstring <DOCSTRING> to match the code in ${declKind} ${declRef}.
-- If the docstring is up to date, return /NO/. It's ok to leave it as is.
+- If the docstring is up to date, set upToDate to true. It's ok to leave it as is.
 - do not rephrase an existing sentence if it is correct.
 - Make sure parameters are documented.
 - Do NOT include types, this is for C#.
-- Use docstring syntax. do not wrap in markdown code section.
 - Minimize updates to the existing docstring.
 
 The full source of the file is in <FILE> for reference.
@@ -0,0 +1,48 @@
+const dbg = host.logger("script:diff");
+
+/** Inclusive range of 1-based line numbers in the new version of a file */
+export type LineRange = { start: number; end: number };
+
+/** Changed line ranges, keyed by file name */
+export type ChangedRanges = Record<string, LineRange[]>;
+
+/**
+ * Parses the output of `git diff --unified=0` into the changed line ranges of each file.
+ * Pure deletions are mapped to the lines surrounding the deleted text.
+ */
+export function parseChangedRanges(diff: string): ChangedRanges {
+  const ranges: ChangedRanges = {};
+  let current: LineRange[] | undefined;
+  for (const line of diff.split(/\r?\n/g)) {
+    const file = /^\+\+\+ (?:b\/(.*)|\/dev\/null)$/.exec(line);
+    if (file) {
+      current = file[1] ? (ranges[normalizePath(file[1])] ??= []) : undefined;
+      continue;
+    }
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk && current) {
+      const start = parseInt(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2]);
+      current.push(
+        count > 0
+          ? { start, end: start + count - 1 }
+          : { start: Math.max(start, 1), end: start + 1 }
+      );
+    }
+  }
+  dbg(`changed ranges: %o`, ranges);
+  return ranges;
+}
+
+/** Returns true if the node spans one of the changed line ranges */
+export function overlapsChanges(node: SgNode, ranges: LineRange[]) {
+  const { start, end } = node.range();
+  // ast-grep lines are 0-based
+  const first = start.line + 1;
+  const last = end.line + 1;
+  return ranges.some((r) => r.start <= last && r.end >= first);
+}
+
+export function normalizePath(filename: string) {
+  return filename.replace(/\\/g, "/").replace(/^\.\//, "");
+}
@@ -0,0 +1,233 @@
+const dbg = host.logger("script:docs");
+
+import type { DocSignature } from "./validate.mts";
+
+/** A named item of a doc comment, e.g. a parameter */
+export type DocItem = {
+  name: string;
+  type: string;
+  description: string;
+};
+
+/**
+ * Language agnostic content of a doc comment, as generated by the LLM.
+ * Empty strings and arrays mean that the section does not apply.
+ */
+export type DocComment = {
+  summary: string;
+  remarks: string;
+  params: DocItem[];
+  typeParams: DocItem[];
+  returns: Omit<DocItem, "name">;
+  throws: Omit<DocItem, "name">[];
+  examples: string[];
+  deprecated: string;
+};
+
+/** Result of a doc comment update, `upToDate` is set when the existing docs are kept */
+export type DocCommentUpdate = DocComment & { upToDate: boolean };
+
+const itemSchema = (
+  description: string,
+  named: boolean = true
+): JSONSchemaObject => ({
+  type: "object",
+  description,
+  properties: {
+    ...(named
+      ? {
+          name: {
+            type: "string",
+            description: "Name as declared in the code.",
+          },
+        }
+      : {}),
+    type: {
+      type: "string",
+      description:
+        "Type name, only filled for languages where the docs carry the types (e.g. JavaScript). Empty otherwise.",
+    },
+    description: { type: "string", description: "Description." },
+  },
+  required: named ? ["name", "type", "description"] : ["type", "description"],
+  additionalProperties: false,
+});
+
+const docCommentProperties: Record<string, JSONSchemaType> = {
+  summary: {
+    type: "string",
+    description: "One sentence summary of the entity.",
+  },
+  remarks: {
+    type: "string",
+    description:
+      "Additional details, only if they add information not in the summary. Empty otherwise.",
+  },
+  params: {
+    type: "array",
+    description: "Parameters, in declaration order. Empty if none.",
+    items: itemSchema("A parameter"),
+  },
+  typeParams: {
+    type: "array",
+    description: "Type parameters, in declaration order. Empty if none.",
+    items: itemSchema("A type parameter"),
+  },
+  returns: itemSchema(
+    "Returned value. Empty description if nothing is returned.",
+    false
+  ),
+  throws: {
+    type: "array",
+    description: "Errors or exceptions thrown. Empty if none.",
+    items: itemSchema(
+      "A thrown error, the type is the name of the error or exception type",
+      false
+    ),
+  },
+  examples: {
+    type: "array",
+    description:
+      "Short code examples, without markdown fences. Empty unless useful.",
+    items: { type: "string" },
+  },
+  deprecated: {
+    type: "string",
+    description:
+      "Deprecation message if the entity is deprecated. Empty otherwise.",
+  },
+};
+
+/** Response schema of doc comment generation */
+export const DOC_COMMENT_SCHEMA: JSONSchemaObject = {
+  type: "object",
+  properties: docCommentProperties,
+  required: Object.keys(docCommentProperties),
+  additionalProperties: false,
+};
+
+/** Response schema of doc comment updates */
+export const DOC_COMMENT_UPDATE_SCHEMA: JSONSchemaObject = {
+  type: "object",
+  properties: {
+    upToDate: {
+      type: "boolean",
+      description:
+        "True if the current docs are up to date and should be kept as is.",
+    },
+    ...docCommentProperties,
+  },
+  required: ["upToDate", ...Object.keys(docCommentProperties)],
+  additionalProperties: false,
+};
+
+function str(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function items(value: unknown, named: boolean): DocItem[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((v) => ({
+      name: str(v?.name),
+      type: str(v?.type),
+      description: str(v?.description),
+    }))
+    .filter((v) => (named ? v.name : v.type || v.description));
+}
+
+/**
+ * Validates and normalizes the doc comment returned by the LLM.
+ * Returns undefined if the response is unusable.
+ */
+export function parseDocComment(json: any): DocCommentUpdate | undefined {
+  if (!json || typeof json !== "object") {
+    dbg(`invalid doc comment: %o`, json);
+    return undefined;
+  }
+  const doc: DocCommentUpdate = {
+    upToDate: json.upToDate === true,
+    summary: str(json.summary),
+    remarks: str(json.remarks),
+    params: items(json.params, true),
+    typeParams: items(json.typeParams, true),
+    returns: {
+      type: str(json.returns?.type),
+      description: str(json.returns?.description),
+    },
+    throws: items(json.throws, false),
+    examples: Array.isArray(json.examples)
+      ? json.examples.map((e: unknown) => unfenceCode(str(e))).filter(Boolean)
+      : [],
+    deprecated: str(json.deprecated),
+  };
+  if (!doc.upToDate && !doc.summary) {
+    dbg(`missing summary: %o`, json);
+    return undefined;
+  }
+  return doc;
+}
+
+/** Doc comment returned in mock mode, documenting the named parameters of the signature */
+export function mockDocComment(
+  summary: string,
+  signature?: DocSignature
+): DocCommentUpdate {
+  return {
+    upToDate: false,
+    summary,
+    remarks: "",
+    params: (signature?.params || [])
+      .filter(Boolean)
+      .map((name) => ({ name, type: "", description: summary })),
+    typeParams: [],
+    returns: { type: "", description: "" },
+    throws: [],
+    examples: [],
+    deprecated: "",
+  };
+}
+
+function unfenceCode(code: string) {
+  return code.replace(/^```\w*\r?\n([\s\S]*?)\r?\n```$/, "$1");
+}
+
+/** Splits a text into trimmed lines */
+export function lines(text: string): string[] {
+  return text ? text.split(/\r?\n/g).map((l) => l.trimEnd()) : [];
+}
+
+/** Joins sections with an empty line, skipping empty sections */
+export function paragraphs(...sections: string[][]): string[] {
+  return sections
+    .filter((s) => s.length)
+    .flatMap((s, i) => (i ? ["", ...s] : s));
+}
+
+/** Renders lines as a `/** ... *\/` block comment */
+export function blockComment(content: string[]): string {
+  content = content.map((l) => l.replace(/\*\//g, "*\\/"));
+  if (content.length === 1) return `/** ${content[0]} */`;
+  return ["/**", ...content.map((l) => (l ? ` * ${l}` : " *")), " */"].join(
+    "\n"
+  );
+}
+
+/** Renders lines as line comments using the given prefix, e.g. `///` */
+export function lineComment(content: string[], prefix: string): string {
+  return content.map((l) => (l ? `${prefix} ${l}` : prefix)).join("\n");
+}
+
+/** Renders a tag followed by its text, continuation lines are indented */
+export function tag(name: string, ...text: string[]): string[] {
+  const [first, ...rest] = lines(text.filter(Boolean).join(" "));
+  return [first ? `${name} ${first}` : name, ...rest.map((l) => `  ${l}`)];
+}
+
+/** Prompt line asking to follow the conventions of the example docs, empty without examples */
+export function examplesHint(options?: { examplesRef?: string }) {
+  const examplesRef = options?.examplesRef;
+  return examplesRef
+    ? `- Follow the conventions of the existing docs in ${examplesRef}: phrasing, mood, inline tags and how often examples are given. Do not copy their content.\n`
+    : "";
+}
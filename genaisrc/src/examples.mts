@@ -0,0 +1,112 @@
+const dbg = host.logger("script:examples");
+
+import type { EntityKind } from "./langops.mts";
+
+/** A documented entity of the workspace, used as an example of the conventions of the docs */
+export type DocExample = {
+  filename: string;
+  kind: EntityKind;
+  declKind: string;
+  /** Name of the enclosing declaration, e.g. the class of a method */
+  container?: string;
+  /** First line of the declaration */
+  signature: string;
+  docs: string;
+  /** 0-based line of the declaration */
+  line: number;
+};
+
+/**
+ * How the examples are selected: `similarity` ranks the examples by same file, same container,
+ * same declaration kind and shared signature identifiers; `proximity` takes the closest
+ * examples in the same file first.
+ */
+export type ExampleSelection = "similarity" | "proximity";
+
+/** The entity to document, described like an example */
+export type ExampleTarget = Omit<DocExample, "docs">;
+
+function identifiers(text: string) {
+  return new Set(
+    (text.match(/[\p{L}_$][\p{L}\p{N}_$]*/gu) || []).map((id) =>
+      id.toLowerCase()
+    )
+  );
+}
+
+/** Jaccard index of the identifiers of two signatures */
+function getSignatureSimilarity(left: string, right: string) {
+  const l = identifiers(left);
+  const r = identifiers(right);
+  const shared = [...l].filter((id) => r.has(id)).length;
+  return shared ? shared / (l.size + r.size - shared) : 0;
+}
+
+export function getExampleSimilarity(
+  example: DocExample,
+  target: ExampleTarget
+) {
+  const sameFile = example.filename === target.filename;
+  return (
+    (sameFile ? 2 : 0) +
+    (sameFile && example.container && example.container === target.container
+      ? 2
+      : 0) +
+    (example.declKind === target.declKind ? 1 : 0) +
+    2 * getSignatureSimilarity(example.signature, target.signature)
+  );
+}
+
+/** Distance used to break ties, closest first in the same file, then in file order */
+function getDistance(example: DocExample, target: ExampleTarget) {
+  return example.filename === target.filename
+    ? Math.abs(example.line - target.line)
+    : Number.MAX_SAFE_INTEGER;
+}
+
+/** Selects the examples of the same entity kind, most relevant first */
+export function selectExamples(
+  pool: DocExample[],
+  target: ExampleTarget,
+  count: number,
+  selection: ExampleSelection
+): DocExample[] {
+  const ranked = pool
+    .filter((e) => e.kind === target.kind)
+    .map((example) => ({
+      example,
+      similarity:
+        selection === "similarity" ? getExampleSimilarity(example, target) : 0,
+      distance: getDistance(example, target),
+    }))
+    .sort(
+      (l, r) =>
+        r.similarity - l.similarity ||
+        l.distance - r.distance ||
+        l.example.filename.localeCompare(r.example.filename) ||
+        l.example.line - r.example.line
+    );
+  const selected = ranked.slice(0, count).map(({ example }) => example);
+  dbg(
+    `selected %d of %d examples for %s:%d`,
+    selected.length,
+    ranked.length,
+    target.filename,
+    target.line + 1
+  );
+  return selected;
+}
+
+/** Removes the indentation of the continuation lines of a comment starting at the given column */
+export function dedentComment(text: string, column: number) {
+  const indentation = new RegExp(`^[ \\t]{0,${column}}`);
+  return text
+    .split(/\r?\n/g)
+    .map((line, i) => (i ? line.replace(indentation, "") : line))
+    .join("\n");
+}
+
+/** Renders an example as its declaration followed by its docs */
+export function renderExample(example: DocExample) {
+  return `${example.declKind} \`${example.signature}\` in ${example.filename}:\n${example.docs}`;
+}
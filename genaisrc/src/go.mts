@@ -0,0 +1,223 @@
+const dbg = host.logger("script:go");
+
+import {
+  examplesHint,
+  lineComment,
+  lines,
+  paragraphs,
+  type DocComment,
+} from "./docs.mts";
+import {
+  applyIgnorePragmas,
+  IGNORE_NEXT_PRAGMA,
+  type PragmaOptions,
+} from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+
+/** Identifiers of the types and called functions referenced in a declaration */
+const references: SgRule = {
+  any: [
+    { kind: "type_identifier" },
+    {
+      kind: "identifier",
+      inside: { kind: "call_expression", field: "function" },
+    },
+    {
+      kind: "field_identifier",
+      inside: {
+        kind: "selector_expression",
+        field: "field",
+        inside: { kind: "call_expression", field: "function" },
+      },
+    },
+  ],
+};
+
+/** Imports of a file, kept in the focused context of large files */
+const imports: SgRule = {
+  any: [{ kind: "package_clause" }, { kind: "import_declaration" }],
+};
+
+/** Directive comments, e.g. `//go:generate`, and ignore pragmas, which are not part of the doc comment */
+const DIRECTIVE = new RegExp(`^//(go:|\\s*${IGNORE_NEXT_PRAGMA}\\b)`);
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "source_file",
+  comments: ["comment"],
+};
+
+class Go implements LanguageOps {
+  getCommentableNodesMatcher(
+    entityKinds: EntityKind[],
+    withComments: boolean,
+    exportsOnly: boolean,
+    ignored?: boolean
+  ) {
+    const declKindsRaw: SgRule = {
+      any: [
+        entityKinds.includes("module") ? { kind: "package_clause" } : null,
+        entityKinds.includes("type") ? { kind: "type_declaration" } : null,
+        entityKinds.includes("function")
+          ? { kind: "function_declaration" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "method_declaration" }
+          : null,
+        entityKinds.includes("function") ? { kind: "method_elem" } : null,
+        entityKinds.includes("property") ? { kind: "field_declaration" } : null,
+        entityKinds.includes("variable") ? { kind: "const_declaration" } : null,
+        entityKinds.includes("variable") ? { kind: "var_declaration" } : null,
+      ].filter(Boolean) as SgRule[],
+    };
+    // In Go, an identifier is exported if it starts with an upper case letter
+    const exportedName: SgRelation = { field: "name", regex: "^[A-Z]" };
+    const exported: SgRule = {
+      any: [
+        { kind: "package_clause" },
+        { has: exportedName },
+        { has: { kind: "type_spec", has: exportedName } },
+        {
+          has: {
+            any: [{ kind: "const_spec" }, { kind: "var_spec" }],
+            stopBy: "end",
+            has: exportedName,
+          },
+        },
+      ],
+    };
+    const declKinds: SgRule = exportsOnly
+      ? { all: [declKindsRaw, exported] }
+      : declKindsRaw;
+    const inside: SgRule = {
+      inside: {
+        any: [
+          {
+            kind: "source_file",
+          },
+          {
+            kind: "field_declaration_list",
+          },
+          {
+            kind: "interface_type",
+          },
+        ],
+      },
+    };
+    // the directives between the doc comment and the declaration are skipped,
+    // blank lines are checked by hasDocComment
+    const withDocComment: SgRule = {
+      follows: {
+        kind: "comment",
+        not: { regex: DIRECTIVE.source },
+        stopBy: { not: { kind: "comment", regex: DIRECTIVE.source } },
+      },
+    };
+    const docsRule: SgRule = withComments ? withDocComment : {};
+
+    return applyIgnorePragmas(
+      { ...declKinds, ...inside, ...docsRule },
+      pragmas,
+      ignored
+    );
+  }
+
+  getCommentNodes(node: SgNode) {
+    // godoc comments are a run of line comments directly above the declaration
+    // or its directives, return them in source order
+    const commentNodes: SgNode[] = [];
+    let line = node.range().start.line;
+    for (
+      let prev = node.prev();
+      prev?.kind() === "comment";
+      prev = prev.prev()
+    ) {
+      const { start, end } = prev.range();
+      // a blank line ends the doc comment, e.g. above a license header
+      if (end.line < line - 1) break;
+      line = start.line;
+      if (DIRECTIVE.test(prev.text())) {
+        if (commentNodes.length) break;
+        continue;
+      }
+      commentNodes.unshift(prev);
+    }
+    dbg(`found %d comment nodes`, commentNodes.length);
+    return commentNodes;
+  }
+
+  hasDocComment(node: SgNode) {
+    return this.getCommentNodes(node).length > 0;
+  }
+
+  getCommentInsertionNode(node: SgNode) {
+    // the doc comment goes above the directives of the declaration
+    let line = node.range().start.line;
+    for (
+      let prev = node.prev();
+      prev?.kind() === "comment" &&
+      DIRECTIVE.test(prev.text()) &&
+      prev.range().end.line === line - 1;
+      prev = prev.prev()
+    ) {
+      node = prev;
+      line = prev.range().start.line;
+    }
+    return node;
+  }
+
+  getImportsMatcher() {
+    return imports;
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
+
+  getLanguageSystemPromptName() {
+    return "system.go";
+  }
+  renderDocComment(doc: DocComment) {
+    // godoc has no tags, parameters are described in the prose
+    const content = paragraphs(
+      lines(doc.summary),
+      lines(doc.remarks),
+      // code blocks are indented
+      ...doc.examples.map((e) => lines(e).map((l) => (l ? `\t${l}` : l))),
+      doc.deprecated ? lines(`Deprecated: ${doc.deprecated}`) : []
+    );
+    return lineComment(content, "//");
+  }
+  addGenerateDocPrompt(
+    _: ChatGenerationContext,
+    declKind: any,
+    declRef: string,
+    fileRef: string,
+    options?: DocPromptOptions
+  ) {
+    const examples = examplesHint(options);
+    return _.$`Generate the Go documentation for the ${declKind} ${declRef}.
+- Follow the godoc conventions (https://go.dev/doc/comment).
+- The summary must start with the name of the declared identifier, e.g. "Foo returns ...". For a package clause, start with "Package name ...".
+- godoc has no tags: explain the parameters, return values and errors in the summary or remarks if relevant, and leave params, typeParams, returns and throws empty.
+- Be concise. Use a technical tone.
+- Do NOT include types, this is for Go.
+${examples}The full source of the file is in ${fileRef} for reference.`;
+  }
+
+  addUpdateDocPrompt(_: ChatGenerationContext, declKind: any, declRef: string) {
+    return _.$`Update the Go doc comment <DOCSTRING> to match the code in ${declKind} ${declRef}.
+- If the doc comment is up to date, set upToDate to true. It's ok to leave it as is.
+- do not rephrase an existing sentence if it is correct.
+- Follow the godoc conventions (https://go.dev/doc/comment). The summary must start with the name of the declared identifier.
+- godoc has no tags: keep the parameters, return values and errors in the summary or remarks, and leave params, typeParams, returns and throws empty.
+- Do NOT include types, this is for Go.
+- Minimize updates to the existing doc comment.
+
+The full source of the file is in <FILE> for reference.
+The source of the function is in ${declRef}.
+The current doc comment is <DOCSTRING>.`;
+  }
+}
+
+export const goOps = new Go();
@@ -0,0 +1,173 @@
+const dbg = host.logger("script:ignore");
+
+import { normalizePath } from "./diff.mts";
+
+/** Comment excluding the next entity, e.g. `// genai-commentor-ignore-next` */
+export const IGNORE_NEXT_PRAGMA = "genai-commentor-ignore-next";
+/** Comment excluding all the entities of a file, e.g. `# genai-commentor-ignore-file` */
+export const IGNORE_FILE_PRAGMA = "genai-commentor-ignore-file";
+/** gitignore-style file listing the files to exclude, at the root of the workspace */
+export const IGNORE_FILENAME = ".commentorignore";
+
+/** Node kinds used to find the ignore pragmas of a language */
+export type PragmaOptions = {
+  /** Kind of the root node of a file */
+  root: string;
+  /** Kinds of the comment nodes */
+  comments: string[];
+  /** Kinds of the nodes allowed between the pragma and the entity, e.g. decorators */
+  skip?: string[];
+  /** Kinds of the nodes wrapping an entity, preceded by the pragma instead of the entity */
+  wrappers?: string[];
+};
+
+function pragmaComment(options: PragmaOptions, pragma: string): SgRule {
+  return {
+    any: options.comments.map((kind) => ({ kind })),
+    regex: `^(//|#|/\\*)\\s*${pragma}\\b`,
+  };
+}
+
+/** Matches the entities excluded by an ignore pragma */
+function getIgnoredRule(options: PragmaOptions): SgRule {
+  const { root, comments, skip = [], wrappers = [] } = options;
+  // the pragma may be followed by the doc comment and decorators
+  const followsPragma: SgRule = {
+    follows: {
+      ...pragmaComment(options, IGNORE_NEXT_PRAGMA),
+      stopBy: {
+        not: { any: [...comments, ...skip].map((kind) => ({ kind })) },
+      },
+    },
+  };
+  // or placed between the decorators and the declaration, in the entity node
+  const nextPragma: SgRule = skip.length
+    ? {
+        any: [
+          followsPragma,
+          {
+            has: {
+              ...pragmaComment(options, IGNORE_NEXT_PRAGMA),
+              follows: {
+                any: skip.map((kind) => ({ kind })),
+                stopBy: { not: { any: comments.map((kind) => ({ kind })) } },
+              },
+            },
+          },
+        ],
+      }
+    : followsPragma;
+  const filePragma: SgRule = {
+    has: pragmaComment(options, IGNORE_FILE_PRAGMA),
+  };
+  return {
+    any: [
+      nextPragma,
+      ...(wrappers.length
+        ? [
+            {
+              inside: {
+                any: wrappers.map((kind) => ({ kind })),
+                ...nextPragma,
+              },
+            },
+          ]
+        : []),
+      { kind: root, ...filePragma },
+      { inside: { kind: root, ...filePragma, stopBy: "end" } },
+    ],
+  };
+}
+
+/**
+ * Excludes the entities matched by the rule which are preceded by an ignore-next pragma
+ * or are in a file with an ignore-file pragma. When `ignored` is true, the rule matches
+ * only the excluded entities instead, to report them.
+ */
+export function applyIgnorePragmas(
+  rule: SgRule,
+  options: PragmaOptions,
+  ignored?: boolean
+): SgRule {
+  const ignoredRule = getIgnoredRule(options);
+  return { all: [rule, ignored ? ignoredRule : { not: ignoredRule }] };
+}
+
+/** Returns true if the text may contain ignore pragmas, to skip searching for them */
+export function hasIgnorePragmas(text: string) {
+  return text.includes(IGNORE_NEXT_PRAGMA) || text.includes(IGNORE_FILE_PRAGMA);
+}
+
+/** Converts a gitignore glob to a regular expression source */
+function globToRegExp(glob: string) {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // `**/` matches any number of directories, a trailing `**` anything
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (c === "*") source += "[^/]*";
+    else if (c === "?") source += "[^/]";
+    else if (c === "[" && glob.indexOf("]", i + 2) > 0) {
+      const end = glob.indexOf("]", i + 2);
+      const range = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += `[${range.replace(/^!/, "^")}]`;
+      i = end;
+    } else if (c === "\\" && i + 1 < glob.length)
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    else source += c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  }
+  return source;
+}
+
+type IgnorePattern = { negated: boolean; regex: RegExp };
+
+function parseIgnorePattern(line: string): IgnorePattern {
+  let pattern = line;
+  const negated = pattern.startsWith("!");
+  if (negated) pattern = pattern.slice(1);
+  else if (/^\\[!#]/.test(pattern)) pattern = pattern.slice(1);
+  // `dir/` only matches directories, i.e. the files below them
+  const directory = pattern.endsWith("/");
+  if (directory) pattern = pattern.replace(/\/+$/, "");
+  // a pattern with a slash is relative to the root, otherwise it matches at any depth
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+  const source = `^${anchored ? "" : "(?:.*/)?"}${globToRegExp(pattern)}${
+    directory ? "/.*" : "(?:/.*)?"
+  }$`;
+  return { negated, regex: new RegExp(source) };
+}
+
+/**
+ * Returns a predicate matching the workspace relative paths against gitignore-style patterns.
+ * The last matching pattern wins and `!` patterns exclude the files back.
+ */
+export function createPathMatcher(
+  patterns: string[]
+): (filename: string) => boolean {
+  const parsed = patterns.map(parseIgnorePattern);
+  return (filename: string) => {
+    const path = normalizePath(filename);
+    let matched = false;
+    for (const { negated, regex } of parsed)
+      if (negated === matched && regex.test(path)) matched = !negated;
+    return matched;
+  };
+}
+
+/** Parses a gitignore-style file into a predicate returning true for the excluded files */
+export function parseIgnoreFile(text: string): (filename: string) => boolean {
+  const patterns = text
+    .split(/\r?\n/g)
+    .map((line) => line.replace(/(?<!\\)\s+$/, ""))
+    .filter((line) => line && !line.startsWith("#"));
+  dbg(`parsed %d ignore patterns`, patterns.length);
+  return createPathMatcher(patterns);
+}
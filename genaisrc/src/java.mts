@@ -0,0 +1,281 @@
+const dbg = host.logger("script:java");
+
+import {
+  blockComment,
+  examplesHint,
+  lines,
+  paragraphs,
+  tag,
+  type DocComment,
+} from "./docs.mts";
+import { applyIgnorePragmas, type PragmaOptions } from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+import type { DocSignature } from "./validate.mts";
+
+/** Only block comments starting with `/**` are Javadoc comments */
+const javadocComment: SgRule = {
+  kind: "block_comment",
+  regex: "^/\\*\\*[^/]",
+};
+
+const TYPE_KINDS = [
+  "class_declaration",
+  "interface_declaration",
+  "record_declaration",
+  "enum_declaration",
+  "annotation_type_declaration",
+];
+
+const FUNCTION_KINDS = [
+  "method_declaration",
+  "constructor_declaration",
+  "compact_constructor_declaration",
+];
+
+function getParams(decl: SgNode) {
+  return (
+    decl
+      .field("parameters")
+      ?.children()
+      .filter(
+        (n) =>
+          n.kind() === "formal_parameter" || n.kind() === "spread_parameter"
+      )
+      // the name is the last identifier, e.g. `String... args`
+      .map((n) => /(\w+)\s*(\[\s*\])*$/.exec(n.text())?.[1]) ?? []
+  );
+}
+
+function getTypeParams(decl: SgNode) {
+  return (
+    decl
+      .field("type_parameters")
+      ?.children()
+      .filter((n) => n.kind() === "type_parameter")
+      .map((n) => n.text().split(/[\s<]/)[0]) ?? []
+  );
+}
+
+/** Identifiers of the types, base classes, interfaces and called methods referenced in a declaration */
+const references: SgRule = {
+  any: [
+    { kind: "type_identifier" },
+    {
+      kind: "identifier",
+      inside: { kind: "method_invocation", field: "name" },
+    },
+  ],
+};
+
+/** Imports of a file, kept in the focused context of large files */
+const imports: SgRule = {
+  any: [{ kind: "package_declaration" }, { kind: "import_declaration" }],
+};
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "program",
+  comments: ["line_comment", "block_comment"],
+};
+
+class Java implements LanguageOps {
+  getCommentableNodesMatcher(
+    entityKinds: EntityKind[],
+    withComments: boolean,
+    exportsOnly: boolean,
+    ignored?: boolean
+  ) {
+    const declKindsRaw: SgRule = {
+      any: [
+        ...(entityKinds.includes("type")
+          ? TYPE_KINDS.map((kind) => ({ kind }))
+          : []),
+        entityKinds.includes("property") ? { kind: "enum_constant" } : null,
+        entityKinds.includes("property") ? { kind: "field_declaration" } : null,
+        entityKinds.includes("property")
+          ? { kind: "constant_declaration" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "method_declaration" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "constructor_declaration" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "compact_constructor_declaration" }
+          : null,
+      ].filter(Boolean) as SgRule[],
+    };
+    // public or protected, or implicitly public as a member of an interface or annotation
+    const visible: SgRule = {
+      any: [
+        {
+          has: { kind: "modifiers", regex: "\\b(public|protected)\\b" },
+        },
+        { kind: "enum_constant" },
+        { inside: { kind: "interface_body" } },
+        { inside: { kind: "annotation_type_body" } },
+      ],
+    };
+    // all the containing types must be visible as well
+    const exported: SgRule = {
+      all: [
+        visible,
+        {
+          not: {
+            inside: {
+              all: [
+                { any: TYPE_KINDS.map((kind) => ({ kind })) },
+                { not: visible },
+              ],
+              stopBy: "end",
+            },
+          },
+        },
+      ],
+    };
+    const declKinds: SgRule = exportsOnly
+      ? { all: [declKindsRaw, exported] }
+      : declKindsRaw;
+    const inside: SgRule = {
+      inside: {
+        any: [
+          {
+            kind: "program",
+          },
+          {
+            kind: "class_body",
+          },
+          {
+            kind: "interface_body",
+          },
+          {
+            kind: "enum_body",
+          },
+          {
+            kind: "enum_body_declarations",
+          },
+          {
+            kind: "annotation_type_body",
+          },
+        ],
+      },
+    };
+    const withDocComment: SgRule = {
+      follows: {
+        ...javadocComment,
+        stopBy: "neighbor",
+      },
+    };
+    const docsRule: SgRule = withComments
+      ? withDocComment
+      : {
+          not: withDocComment,
+        };
+
+    return applyIgnorePragmas(
+      { ...declKinds, ...inside, ...docsRule },
+      pragmas,
+      ignored
+    );
+  }
+
+  getCommentNodes(decl: SgNode) {
+    const docnode = decl.prev();
+    if (
+      docnode?.kind() !== "block_comment" ||
+      !/^\/\*\*[^/]/.test(docnode.text())
+    ) {
+      dbg(`no javadoc found for %s`, decl.text());
+      return null;
+    }
+    return [docnode];
+  }
+  getCommentInsertionNode(node: SgNode) {
+    return node;
+  }
+
+  getSignature(decl: SgNode): DocSignature | undefined {
+    const kind = decl.kind();
+    // record components are documented with @param
+    if (TYPE_KINDS.includes(kind))
+      return {
+        params: getParams(decl),
+        typeParams: getTypeParams(decl),
+        returns: false,
+      };
+    if (!FUNCTION_KINDS.includes(kind)) return undefined;
+    return {
+      // compact constructors implicitly take the record components
+      params:
+        kind === "compact_constructor_declaration"
+          ? undefined
+          : getParams(decl),
+      typeParams: getTypeParams(decl),
+      returns:
+        kind === "method_declaration"
+          ? decl.field("type")?.kind() !== "void_type"
+          : false,
+    };
+  }
+
+  getImportsMatcher() {
+    return imports;
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
+
+  getLanguageSystemPromptName() {
+    return "system.java";
+  }
+  renderDocComment(doc: DocComment) {
+    const content = paragraphs(
+      lines(doc.summary),
+      doc.remarks ? ["<p>", ...lines(doc.remarks)] : [],
+      ...doc.examples.map((e) => ["<pre>{@code", ...lines(e), "}</pre>"]),
+      [
+        ...doc.typeParams.flatMap((p) =>
+          tag("@param", `<${p.name}>`, p.description)
+        ),
+        ...doc.params.flatMap((p) => tag("@param", p.name, p.description)),
+        ...(doc.returns.description
+          ? tag("@return", doc.returns.description)
+          : []),
+        ...doc.throws.flatMap((t) => tag("@throws", t.type, t.description)),
+        ...(doc.deprecated ? tag("@deprecated", doc.deprecated) : []),
+      ]
+    );
+    return blockComment(content);
+  }
+  addGenerateDocPrompt(
+    _: ChatGenerationContext,
+    declKind: any,
+    declRef: string,
+    fileRef: string,
+    options?: DocPromptOptions
+  ) {
+    const examples = examplesHint(options);
+    return _.$`Generate the Java documentation for the ${declKind} ${declRef}.
+- Make sure parameters, type parameters, return values and thrown exceptions are documented if relevant.
+- Be concise. Use a technical tone.
+- Do NOT include types, this is for Java. Descriptions may use Javadoc inline tags such as {@link Name} and {@code value}.
+${examples}The full source of the file is in ${fileRef} for reference.`;
+  }
+
+  addUpdateDocPrompt(_: ChatGenerationContext, declKind: any, declRef: string) {
+    return _.$`Update the Javadoc <DOCSTRING> to match the code in ${declKind} ${declRef}.
+- If the Javadoc is up to date, set upToDate to true. It's ok to leave it as is.
+- do not rephrase an existing sentence if it is correct.
+- Make sure parameters, type parameters, return values and thrown exceptions are documented.
+- Do NOT include types, this is for Java.
+- Minimize updates to the existing Javadoc.
+
+The full source of the file is in <FILE> for reference.
+The source of the function is in ${declRef}.
+The current Javadoc is <DOCSTRING>.`;
+  }
+}
+
+export const javaOps = new Java();
@@ -0,0 +1,293 @@
+const dbg = host.logger("script:javascript");
+
+import {
+  blockComment,
+  examplesHint,
+  lines,
+  paragraphs,
+  tag,
+  type DocComment,
+} from "./docs.mts";
+import { applyIgnorePragmas, type PragmaOptions } from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+import { typescriptOps } from "./typescript.mts";
+
+/** Matches `module.exports = ...`, `module.exports.x = ...` and `exports.x = ...` */
+function commonjsExport(right: SgRule): SgRule {
+  return {
+    kind: "expression_statement",
+    has: {
+      kind: "assignment_expression",
+      all: [
+        {
+          has: {
+            field: "left",
+            kind: "member_expression",
+            regex: "^(module\\.)?exports\\b",
+          },
+        },
+        { has: { field: "right", ...right } },
+      ],
+    },
+  };
+}
+
+const FUNCTION_KINDS = [
+  "function_expression",
+  "arrow_function",
+  "generator_function",
+];
+
+/** `const foo = () => ...` or `const foo = function () ...` */
+const functionConst: SgRule = {
+  kind: "lexical_declaration",
+  has: {
+    kind: "variable_declarator",
+    has: { field: "value", any: FUNCTION_KINDS.map((kind) => ({ kind })) },
+  },
+};
+
+/** CommonJS exports of a top level declaration, e.g. `module.exports = foo` */
+const commonjsExportedName: SgRule = {
+  ...commonjsExport({ kind: "identifier" }),
+  inside: { kind: "program" },
+};
+
+/** Names declared by a function, class or variable declaration */
+function getDeclaredNames(decl: SgNode) {
+  const name = decl.field("name");
+  if (name) return [name.text()];
+  return decl
+    .children()
+    .filter((n) => n.kind() === "variable_declarator")
+    .map((n) => n.field("name")?.text())
+    .filter(Boolean);
+}
+
+/** Identifiers of the base classes and called functions referenced in a declaration, JavaScript has no type nodes */
+const references: SgRule = {
+  any: [
+    { kind: "identifier", inside: { kind: "class_heritage" } },
+    {
+      kind: "identifier",
+      inside: { kind: "call_expression", field: "function" },
+    },
+    {
+      kind: "identifier",
+      inside: { kind: "new_expression", field: "constructor" },
+    },
+    {
+      kind: "property_identifier",
+      inside: {
+        kind: "member_expression",
+        field: "property",
+        inside: { kind: "call_expression", field: "function" },
+      },
+    },
+  ],
+};
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "program",
+  comments: ["comment"],
+  skip: ["decorator"],
+};
+
+class Javascript implements LanguageOps {
+  getCommentableNodesMatcher(
+    entityKinds: EntityKind[],
+    withComments: boolean,
+    exportsOnly: boolean,
+    ignored?: boolean
+  ) {
+    const declKindsRaw: SgRule = {
+      any: [
+        entityKinds.includes("function")
+          ? { kind: "function_declaration" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "generator_function_declaration" }
+          : null,
+        entityKinds.includes("function") ? functionConst : null,
+        entityKinds.includes("type") ? { kind: "class_declaration" } : null,
+        entityKinds.includes("variable")
+          ? { kind: "lexical_declaration", not: functionConst }
+          : null,
+        entityKinds.includes("variable")
+          ? { kind: "variable_declaration" }
+          : null,
+        entityKinds.includes("property") ? { kind: "field_definition" } : null,
+        entityKinds.includes("function") ? { kind: "method_definition" } : null,
+      ].filter(Boolean) as SgRule[],
+    };
+    // CommonJS exports are classified by the assigned value,
+    // exported identifiers are resolved to their declaration
+    const commonjsKinds: SgRule = {
+      any: [
+        entityKinds.includes("function")
+          ? commonjsExport({ any: FUNCTION_KINDS.map((kind) => ({ kind })) })
+          : null,
+        entityKinds.includes("type") ? commonjsExport({ kind: "class" }) : null,
+        entityKinds.includes("variable")
+          ? commonjsExport({
+              not: {
+                any: [...FUNCTION_KINDS, "class", "identifier"].map((kind) => ({
+                  kind,
+                })),
+              },
+            })
+          : null,
+      ].filter(Boolean) as SgRule[],
+    };
+    // If export only then require an 'export' or a CommonJS export
+    const declKinds: SgRule = {
+      any: [
+        exportsOnly ? { any: [] } : declKindsRaw,
+        {
+          kind: "export_statement",
+          has: declKindsRaw,
+        },
+        commonjsKinds,
+        // top level declarations exported by name, filtered by isExported
+        exportsOnly ? { ...declKindsRaw, inside: { kind: "program" } } : null,
+      ].filter(Boolean) as SgRule[],
+    };
+    const inside: SgRule = {
+      inside: {
+        any: [
+          {
+            kind: "program",
+          },
+          {
+            kind: "class_body",
+          },
+        ],
+      },
+    };
+    const withDocComment: SgRule = {
+      follows: {
+        kind: "comment",
+        // JSDoc comments, not line comments such as ignore pragmas
+        regex: "^/\\*\\*",
+        // doc comments are placed before decorators
+        stopBy: { not: { kind: "decorator" } },
+      },
+    };
+    const docsRule: SgRule = withComments
+      ? withDocComment
+      : {
+          not: withDocComment,
+        };
+
+    return applyIgnorePragmas(
+      { ...declKinds, ...inside, ...docsRule },
+      pragmas,
+      ignored
+    );
+  }
+  isExported(decl: SgNode) {
+    if (
+      decl.kind() === "export_statement" ||
+      decl.kind() === "expression_statement"
+    )
+      return true;
+    const exported = decl
+      .getRoot()
+      .root()
+      .findAll({ rule: commonjsExportedName })
+      .map((n) =>
+        n.find({ rule: { kind: "assignment_expression" } })?.field("right")
+      )
+      .map((n) => n?.text());
+    dbg(`commonjs exports: %o`, exported);
+    return getDeclaredNames(decl).some((name) => exported.includes(name));
+  }
+  getCommentNodes(decl: SgNode) {
+    return typescriptOps.getCommentNodes(decl);
+  }
+  getCommentInsertionNode(node: SgNode) {
+    return typescriptOps.getCommentInsertionNode(node);
+  }
+  getDeclarationKind(decl: SgNode) {
+    return typescriptOps.getDeclarationKind(decl);
+  }
+  getSignature(decl: SgNode) {
+    // CommonJS exports are documented by the assigned value
+    if (decl.kind() === "expression_statement")
+      decl = decl
+        .find({ rule: { kind: "assignment_expression" } })
+        ?.field("right");
+    return decl ? typescriptOps.getSignature(decl) : undefined;
+  }
+
+  getImportsMatcher() {
+    return typescriptOps.getImportsMatcher();
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
+
+  getLanguageSystemPromptName() {
+    return "system.javascript";
+  }
+  renderDocComment(doc: DocComment) {
+    const type = (t: string) => `{${t || "*"}}`;
+    const content = paragraphs(
+      lines(doc.summary),
+      lines(doc.remarks),
+      [
+        ...doc.typeParams.flatMap((p) =>
+          tag("@template", p.name, p.description && `- ${p.description}`)
+        ),
+        ...doc.params.flatMap((p) =>
+          tag("@param", type(p.type), p.name, "-", p.description)
+        ),
+        ...(doc.returns.description
+          ? tag("@returns", type(doc.returns.type), doc.returns.description)
+          : []),
+        ...doc.throws.flatMap((t) =>
+          tag("@throws", t.type && `{${t.type}}`, t.description)
+        ),
+      ],
+      ...doc.examples.map((e) => ["@example", ...lines(e)]),
+      doc.deprecated ? tag("@deprecated", doc.deprecated) : []
+    );
+    return blockComment(content);
+  }
+  addGenerateDocPrompt(
+    _: ChatGenerationContext,
+    declKind: any,
+    declRef: string,
+    fileRef: string,
+    options?: DocPromptOptions
+  ): PromptTemplateString {
+    const examples = examplesHint(options);
+    dbg(`generating JSDoc for %s`, declKind);
+    return _.$`Generate the JavaScript documentation for the ${declKind} ${declRef}.
+- Make sure parameters, type parameters, and return values are documented if relevant.
+- Be concise. Use a technical tone.
+- DO fill the types of parameters and returned values using JSDoc type expressions, e.g. "string", "number[]", "Promise<void>". This is JavaScript and the JSDoc types are the only type information available to "tsc --checkJs".
+${examples}The full source of the file is in ${fileRef} for reference.`;
+  }
+
+  addUpdateDocPrompt(
+    _: ChatGenerationContext,
+    declKind: any,
+    declRef: string
+  ): PromptTemplateString {
+    return _.$`Update the JavaScript docstring <DOCSTRING> to match the code in ${declKind} ${declRef}.
+- If the docstring is up to date, set upToDate to true. It's ok to leave it as is.
+- do not rephrase an existing sentence if it is correct.
+- Make sure parameters are documented.
+- DO fill the types of parameters and returned values, this is JavaScript and the JSDoc types are checked by "tsc --checkJs".
+- Minimize updates to the existing docstring.
+
+The full source of the file is in <FILE> for reference.
+The source of the function is in ${declRef}.
+The current docstring is <DOCSTRING>.`;
+  }
+}
+
+export const javascriptOps = new Javascript();
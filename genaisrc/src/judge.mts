@@ -0,0 +1,110 @@
+const dbg = host.logger("script:judge");
+
+import { classify, type ClassifyOptions } from "./classify.mts";
+
+/** Criteria of the judge, scored from 1 to 5, higher is better */
+export type JudgeCriterion =
+  | "accuracy"
+  | "completeness"
+  | "conciseness"
+  | "hallucination"
+  | "improvement";
+
+const JUDGE_CRITERIA: Record<JudgeCriterion, string> = {
+  accuracy:
+    "the statements in <DOCS> are correct for the code in <FUNCTION>, including the described behavior, parameters and returned values",
+  completeness:
+    "<DOCS> documents the purpose of the code and, when relevant, every parameter, type parameter, returned value and error of <FUNCTION>",
+  conciseness:
+    "<DOCS> is short and to the point, without repeating the code, the types or the same information twice",
+  hallucination:
+    "<DOCS> does not invent parameters, values, behaviors or references that are not in <FUNCTION>, 5 meaning nothing is invented",
+  improvement:
+    "<DOCS> significantly improves the original docs <ORIGINAL_DOCS>, e.g. fixes an incorrect statement or documents a missing parameter, rather than rephrasing them or making minor adjustments",
+};
+
+const JUDGE_SCORES = {
+  "1": "Very poor, the documentation fails the criterion.",
+  "2": "Poor, the documentation has major issues with the criterion.",
+  "3": "Acceptable, the documentation has minor issues with the criterion.",
+  "4": "Good, the documentation has nitpicks with the criterion.",
+  "5": "Excellent, the documentation fully meets the criterion.",
+};
+
+/** Scores of a generated doc comment, improvement is only scored for updated docs */
+export type JudgeResult = {
+  scores: Partial<Record<JudgeCriterion, number>>;
+  /** Lowest probability of the scores in percent, undefined if the model does not return log probabilities */
+  confidence?: number;
+  /** Highest normalized entropy of the scores */
+  entropy?: number;
+  usage: { total: number; cost: number };
+};
+
+export type JudgeVerdict = "accepted" | "rejected" | "uncertain" | "nit";
+
+/** Scores a doc comment on each criterion, one classification per criterion */
+export async function judgeDocComment(
+  code: string,
+  docs: string,
+  options: ClassifyOptions,
+  originalDocs?: string
+): Promise<JudgeResult> {
+  const scores: JudgeResult["scores"] = {};
+  const usage = { total: 0, cost: 0 };
+  let confidence: number | undefined;
+  let entropy: number | undefined;
+  for (const [criterion, description] of Object.entries(JUDGE_CRITERIA)) {
+    if (criterion === "improvement" && !originalDocs) continue;
+    const res = await classify(
+      (_) => {
+        _.def("FUNCTION", code);
+        _.def("DOCS", docs);
+        if (originalDocs) _.def("ORIGINAL_DOCS", originalDocs);
+        _.$`Score the documentation <DOCS> of the code <FUNCTION> on ${criterion}: ${description}.`;
+      },
+      JUDGE_SCORES,
+      options
+    );
+    scores[criterion as JudgeCriterion] = Number(res.label) || 1;
+    usage.total += res.usage?.total || 0;
+    usage.cost += res.usage?.cost || 0;
+    if (res.probPercent !== undefined)
+      confidence = Math.min(confidence ?? 100, res.probPercent);
+    if (res.entropy !== undefined)
+      entropy = Math.max(entropy ?? 0, res.entropy);
+  }
+  dbg(`scores: %o, confidence: %s`, scores, confidence);
+  return { scores, confidence, entropy, usage };
+}
+
+/**
+ * Accepts the docs scoring at least the threshold on every criterion. Scores given with
+ * a confidence lower than the minimum are not trusted and the docs are uncertain.
+ * Updated docs failing only the improvement criterion are nitpicks of the original docs.
+ */
+export function getJudgeVerdict(
+  result: JudgeResult,
+  threshold: number,
+  minConfidence: number
+): { verdict: JudgeVerdict; issues: string[] } {
+  const failed = Object.entries(result.scores).filter(
+    ([, score]) => score < threshold
+  );
+  const issues = failed.map(([criterion, score]) => `${criterion} ${score}/5`);
+  if (result.confidence !== undefined && result.confidence < minConfidence)
+    return {
+      verdict: "uncertain",
+      issues: [
+        ...issues,
+        `confidence ${result.confidence.toFixed(0)}% < ${minConfidence}%`,
+      ],
+    };
+  if (!failed.length) return { verdict: "accepted", issues };
+  return {
+    verdict: failed.every(([criterion]) => criterion === "improvement")
+      ? "nit"
+      : "rejected",
+    issues,
+  };
+}
@@ -1,3 +1,6 @@
+import type { DocComment } from "./docs.mts";
+import type { DocSignature } from "./validate.mts";
+
 export type EntityKind =
   | "module"
   | "type"
@@ -5,34 +8,73 @@ export type EntityKind =
   | "property"
   | "variable";
 
+/** Options of the doc generation and update prompts */
+export type DocPromptOptions = {
+  /** Doc style, for languages with several doc styles */
+  style?: string;
+  /** Reference to documented entities of the workspace, as examples of the conventions */
+  examplesRef?: string;
+};
+
 export interface LanguageOps {
+  /** Matches the commentable entities, excluding the entities ignored by pragmas unless `ignored` is true */
   getCommentableNodesMatcher: (
     entityKinds: EntityKind[],
     withComments: boolean,
-    exportsOnly: boolean
+    exportsOnly: boolean,
+    ignored?: boolean
   ) => SgRule;
 
   /** Given a commentable node which already has a doc comment, find the range of comment nodes */
   getCommentNodes: (decl: SgNode) => SgNode[] | null;
 
+  /** Checks doc comment rules that cannot be expressed in the matcher, e.g. blank lines, applied to the matches of both modes */
+  hasDocComment?: (decl: SgNode) => boolean;
+
   /** Given a commentable node without a doc comment, find the node where we insert the comment */
   getCommentInsertionNode: (node: SgNode) => SgNode;
 
-  /** Given a string of documentation, return the text to insert as a comment */
-  getCommentText: (docs: string) => string;
+  /** Given a commentable node without a doc comment, return true if the comment is inserted after the insertion node */
+  insertCommentAfter?: (node: SgNode) => boolean;
+
+  /** Checks export rules that cannot be expressed in the matcher, applied when only exported entities are targeted */
+  isExported?: (decl: SgNode) => boolean;
+
+  /** Text of the declaration used in prompts, defaults to the source of the declaration */
+  getDeclarationText?: (decl: SgNode) => string;
+
+  /** Kind of the declaration used in prompts, defaults to the node kind */
+  getDeclarationKind?: (decl: SgNode) => string;
+
+  /** Extracts the parameters, type parameters and returned value of a declaration, used to validate the generated docs */
+  getSignature?: (decl: SgNode) => DocSignature | undefined;
+
+  /** Matches the imports of a file, e.g. import statements and package declarations */
+  getImportsMatcher?: () => SgRule;
+
+  /** Matches the identifiers of the types, base types and called functions referenced in a declaration */
+  getReferencesMatcher?: () => SgRule;
+
+  /** Detects the dominant style of the docs in a doc comment or a source file, for languages with several doc styles */
+  detectDocStyle?: (text: string) => string | undefined;
+
+  /** Given the generated documentation, return the text to insert as a comment for the declaration, in the given doc style */
+  renderDocComment: (doc: DocComment, decl: SgNode, style?: string) => string;
 
   getLanguageSystemPromptName: () => string;
 
   addUpdateDocPrompt: (
     _: ChatGenerationContext,
     declKind: any,
-    declRef: string
+    declRef: string,
+    options?: DocPromptOptions
   ) => PromptTemplateString;
 
   addGenerateDocPrompt: (
     _: ChatGenerationContext,
     declKind: string,
     declRef: string,
-    fileRef: string
+    fileRef: string,
+    options?: DocPromptOptions
   ) => PromptTemplateString;
 }
@@ -0,0 +1,115 @@
+const dbg = host.logger("script:ledger");
+
+import { normalizePath } from "./diff.mts";
+
+/** Outcome of the last review of an entity */
+export type LedgerOutcome =
+  | "up-to-date"
+  | "nit"
+  | "refused"
+  | "generated"
+  | "updated";
+
+export type LedgerEntry = {
+  outcome: LedgerOutcome;
+  filename: string;
+  kind: string;
+};
+
+type LedgerFile = {
+  version: 1;
+  entries: Record<string, LedgerEntry>;
+};
+
+function normalize(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Computes the ledger key of an entity from its file, declaration and doc comment,
+ * so that identical declarations in several files have their own entries.
+ * Whitespace is normalized so that formatting changes do not invalidate entries,
+ * and the original docs are removed from the declaration text for languages
+ * where the docstring is part of the declaration (e.g. Python).
+ * When the docs are rewritten, pass the new docs to compute the key of the edited entity.
+ */
+export async function getLedgerKey(
+  filename: string,
+  declText: string,
+  docsText: string,
+  newDocsText: string = docsText
+) {
+  const docs = normalize(docsText);
+  const decl = normalize(
+    docs ? normalize(declText).replace(docs, "") : declText
+  );
+  return await parsers.hash({
+    filename: normalizePath(filename),
+    decl,
+    docs: normalize(newDocsText),
+  });
+}
+
+/**
+ * Persistent record of the entities already reviewed, committed alongside the sources
+ * so that later runs skip entities that did not change.
+ */
+export class Ledger {
+  private entries: Record<string, LedgerEntry> = {};
+  private readonly seen = new Set<string>();
+
+  readonly filename: string;
+
+  constructor(filename: string) {
+    this.filename = filename;
+  }
+
+  async load() {
+    const file = await workspace.readText(this.filename);
+    if (!file?.content) {
+      dbg(`no ledger found at %s`, this.filename);
+      return;
+    }
+    const data = JSON.parse(file.content) as LedgerFile;
+    if (data?.version !== 1 || typeof data.entries !== "object")
+      throw new Error(`${this.filename}: unsupported ledger format`);
+    this.entries = data.entries;
+    dbg(`loaded %d entries`, Object.keys(this.entries).length);
+  }
+
+  /** Returns the entry of an unchanged entity, if any */
+  get(key: string) {
+    const entry = this.entries[key];
+    if (entry) this.seen.add(key);
+    return entry;
+  }
+
+  set(key: string, entry: LedgerEntry) {
+    dbg(`%s: %s %s`, entry.outcome, entry.filename, entry.kind);
+    this.entries[key] = entry;
+    this.seen.add(key);
+  }
+
+  /** Drops the entries of fully processed files that no longer match an entity */
+  prune(filenames: Set<string>) {
+    for (const [key, entry] of Object.entries(this.entries)) {
+      if (filenames.has(entry.filename) && !this.seen.has(key)) {
+        dbg(`pruning %s %s`, entry.filename, entry.kind);
+        delete this.entries[key];
+      }
+    }
+  }
+
+  async save() {
+    // sort keys to keep the committed file stable
+    const entries = Object.fromEntries(
+      Object.entries(this.entries).sort(([l], [r]) => l.localeCompare(r))
+    );
+    const data: LedgerFile = { version: 1, entries };
+    await workspace.writeText(
+      this.filename,
+      JSON.stringify(data, null, 2) + "\n"
+    );
+    dbg(`saved %d entries to %s`, Object.keys(entries).length, this.filename);
+  }
+}
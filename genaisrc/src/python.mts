@@ -1,9 +1,255 @@
-import type { EntityKind, LanguageOps } from "./langops.mts";
+import { examplesHint, lines, paragraphs, type DocComment } from "./docs.mts";
+import { applyIgnorePragmas, type PragmaOptions } from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+import { hasValueReturn, type DocSignature } from "./validate.mts";
 
 const dbg = host.logger("script:python");
 
+/** Names starting with an underscore are private, dunder names are not */
+const privateName: SgRule = {
+  all: [{ regex: "^_" }, { not: { regex: "^__\\w+__$" } }],
+};
+
+/** A docstring is a string literal expression statement */
+const docstringStatement: SgRule = {
+  kind: "expression_statement",
+  has: {
+    nthChild: 1,
+    kind: "string",
+  },
+};
+
+function isDocstring(node: SgNode) {
+  return (
+    node?.kind() === "expression_statement" &&
+    node.child(0)?.kind() === "string"
+  );
+}
+
+/** A simple assignment to an identifier, e.g. `x = 1` or `x: int = 1` */
+function assignment(name?: SgRule): SgRule {
+  return {
+    kind: "expression_statement",
+    has: {
+      kind: "assignment",
+      has: { field: "left", kind: "identifier", ...(name || {}) },
+    },
+  };
+}
+
+function getDeclKindHint(declKind: string) {
+  if (declKind === "module")
+    return "This is the module docstring, summarize the purpose of the module and what it exports.";
+  if (declKind === "expression_statement")
+    return "This is an attribute docstring (PEP 257), placed after the assignment. Use a single short sentence and leave the other sections empty.";
+  return "The docstring is the first statement of the body.";
+}
+
+/** Python docstring conventions, Google style by default */
+export type DocstringStyle = "google" | "numpy" | "sphinx" | "epytext";
+
+/** Markers of the sections or fields of each docstring style */
+const DOCSTRING_STYLE_MARKERS: Record<DocstringStyle, RegExp> = {
+  google:
+    /^[ \t]*(Args|Arguments|Returns|Yields|Raises|Attributes|Examples?):[ \t]*$/gm,
+  numpy:
+    /^[ \t]*(Parameters|Returns|Yields|Raises|Attributes|Examples|Notes)[ \t]*\r?\n[ \t]*-{3,}[ \t]*$/gm,
+  sphinx: /^[ \t]*:(param|type|returns?|rtype|raises?)\b[^:\n]*:/gm,
+  epytext: /^[ \t]*@(param|type|returns?|rtype|raises?)\b[^:\n]*:/gm,
+};
+
+/**
+ * Detects the dominant style of the docstrings in a text, a docstring or a whole file,
+ * by counting the sections and fields of each style. Undefined if there are none.
+ */
+export function detectDocstringStyle(text: string): DocstringStyle | undefined {
+  let dominant: DocstringStyle | undefined;
+  let max = 0;
+  for (const [style, marker] of Object.entries(DOCSTRING_STYLE_MARKERS)) {
+    const count = text.match(marker)?.length || 0;
+    if (count > max) {
+      dominant = style as DocstringStyle;
+      max = count;
+    }
+  }
+  return dominant;
+}
+
+function getStyleHint(style?: string) {
+  const name =
+    style === "numpy"
+      ? "NumPy"
+      : style === "sphinx"
+      ? "Sphinx (reST)"
+      : style === "epytext"
+      ? "Epytext"
+      : "Google";
+  return `The docstring is rendered in the ${name} style from the parameters, returns and raises fields: do not repeat them or use markup for them in the summary or remarks.`;
+}
+
+const indent = (content: string[]) => content.map((l) => (l ? `    ${l}` : l));
+
+/** A field followed by its description, continuation lines are indented */
+function field(head: string, description: string) {
+  const [first, ...rest] = lines(description);
+  return [first ? `${head} ${first}` : head, ...indent(rest)];
+}
+
+function examples(doc: DocComment) {
+  return doc.examples.flatMap((e, i) => [...(i ? [""] : []), ...lines(e)]);
+}
+
+/** Google style sections (https://google.github.io/styleguide/pyguide.html#38-comments-and-docstrings) */
+function renderGoogle(doc: DocComment) {
+  const section = (title: string, content: string[]) =>
+    content.length ? [`${title}:`, ...indent(content)] : [];
+  const item = (name: string, description: string) =>
+    lines(name ? `${name}: ${description}` : description);
+  return paragraphs(
+    lines(doc.summary),
+    lines(doc.remarks),
+    section(
+      "Args",
+      doc.params.flatMap((p) => item(p.name, p.description))
+    ),
+    section(
+      "Returns",
+      item(doc.returns.type, doc.returns.description).filter(
+        () => doc.returns.description
+      )
+    ),
+    section(
+      "Raises",
+      doc.throws.flatMap((t) => item(t.type, t.description))
+    ),
+    section("Examples", examples(doc)),
+    section("Deprecated", lines(doc.deprecated))
+  );
+}
+
+/** NumPy style sections (https://numpydoc.readthedocs.io/en/latest/format.html) */
+function renderNumpy(doc: DocComment) {
+  const section = (title: string, content: string[]) =>
+    content.length ? [title, "-".repeat(title.length), ...content] : [];
+  const item = (head: string, description: string) =>
+    head ? [head, ...indent(lines(description))] : lines(description);
+  return paragraphs(
+    lines(doc.summary),
+    field("Deprecated:", doc.deprecated).filter(() => doc.deprecated),
+    lines(doc.remarks),
+    section(
+      "Parameters",
+      doc.params.flatMap((p) =>
+        item(p.type ? `${p.name} : ${p.type}` : p.name, p.description)
+      )
+    ),
+    section(
+      "Returns",
+      doc.returns.description
+        ? item(doc.returns.type, doc.returns.description)
+        : []
+    ),
+    section(
+      "Raises",
+      doc.throws.flatMap((t) => item(t.type, t.description))
+    ),
+    section("Examples", examples(doc))
+  );
+}
+
+/** Sphinx (reST) `:param x:` or Epytext `@param x:` fields */
+function renderFields(doc: DocComment, style: "sphinx" | "epytext") {
+  const sphinx = style === "sphinx";
+  const tag = (name: string, arg?: string) =>
+    `${sphinx ? ":" : "@"}${name}${arg ? ` ${arg}` : ""}:`;
+  const fields = [
+    ...doc.params.flatMap((p) => [
+      ...field(tag("param", p.name), p.description),
+      ...(p.type ? [`${tag("type", p.name)} ${p.type}`] : []),
+    ]),
+    ...(doc.returns.description
+      ? [
+          ...field(tag(sphinx ? "returns" : "return"), doc.returns.description),
+          ...(doc.returns.type ? [`${tag("rtype")} ${doc.returns.type}`] : []),
+        ]
+      : []),
+    ...doc.throws.flatMap((t) =>
+      field(tag(sphinx ? "raises" : "raise", t.type), t.description)
+    ),
+  ];
+  return paragraphs(
+    lines(doc.summary),
+    lines(doc.remarks),
+    doc.examples.length ? ["Examples::", "", ...indent(examples(doc))] : [],
+    field(sphinx ? "Deprecated:" : "@deprecated:", doc.deprecated).filter(
+      () => doc.deprecated
+    ),
+    fields
+  );
+}
+
+const FUNCTION_KINDS = ["function_definition", "lambda", "class_definition"];
+
+/** Parameter name, undefined for the `*` and `/` separators */
+function getParamName(param: SgNode) {
+  return /^\*{0,2}([A-Za-z_]\w*)/.exec(param.text())?.[1];
+}
+
+/** Returns true if the function returns or yields a value */
+function returnsValue(fn: SgNode) {
+  const returnType = fn.field("return_type");
+  if (returnType) return !/^(None|NoReturn|Never)$/.test(returnType.text());
+  if (fn.field("name")?.text() === "__init__") return false;
+  return hasValueReturn(fn.field("body"), FUNCTION_KINDS, ["yield"]);
+}
+
+/** Identifiers of the types, base classes and called functions referenced in a declaration */
+const references: SgRule = {
+  any: [
+    { kind: "identifier", inside: { kind: "type", stopBy: "end" } },
+    {
+      kind: "identifier",
+      inside: {
+        kind: "argument_list",
+        inside: { kind: "class_definition", field: "superclasses" },
+      },
+    },
+    { kind: "identifier", inside: { kind: "call", field: "function" } },
+    {
+      kind: "identifier",
+      inside: {
+        kind: "attribute",
+        field: "attribute",
+        inside: { kind: "call", field: "function" },
+      },
+    },
+  ],
+};
+
+/** Imports of a file, kept in the focused context of large files */
+const imports: SgRule = {
+  any: [
+    { kind: "import_statement" },
+    { kind: "import_from_statement" },
+    { kind: "future_import_statement" },
+  ],
+};
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "module",
+  comments: ["comment"],
+  skip: ["decorator"],
+  wrappers: ["decorated_definition"],
+};
+
 class Python implements LanguageOps {
-  getCommentableNodesMatcher(entityKinds: EntityKind[], withComments: boolean) {
+  getCommentableNodesMatcher(
+    entityKinds: EntityKind[],
+    withComments: boolean,
+    exportsOnly: boolean,
+    ignored?: boolean
+  ) {
     const declKinds: SgRule = {
       any: [
         entityKinds.includes("function")
@@ -21,6 +267,9 @@ class Python implements LanguageOps {
           {
             kind: "block",
           },
+          {
+            kind: "decorated_definition",
+          },
         ],
       },
     };
@@ -29,11 +278,7 @@ class Python implements LanguageOps {
         kind: "block",
         has: {
           nthChild: 1,
-          kind: "expression_statement",
-          has: {
-            nthChild: 1,
-            kind: "string",
-          },
+          ...docstringStatement,
         },
       },
     };
@@ -43,9 +288,116 @@ class Python implements LanguageOps {
           not: withDocstring,
         };
 
-    return { ...declKinds, ...inside, ...docsRule };
+    // PEP 257 attribute docstrings follow the assignment
+    const withAttributeDocstring: SgRule = {
+      precedes: { ...docstringStatement, stopBy: "neighbor" },
+    };
+    const attributeDocsRule: SgRule = withComments
+      ? withAttributeDocstring
+      : { not: withAttributeDocstring };
+    const attributes: SgRule[] = [
+      entityKinds.includes("property")
+        ? {
+            ...assignment(),
+            inside: { kind: "block", inside: { kind: "class_definition" } },
+          }
+        : null,
+      entityKinds.includes("variable")
+        ? {
+            ...assignment({ regex: "^[A-Z][A-Z0-9_]*$" }),
+            inside: { kind: "module" },
+          }
+        : null,
+    ].filter(Boolean) as SgRule[];
+
+    // the module docstring is the first statement of the file
+    const withModuleDocstring: SgRule = {
+      has: {
+        ...docstringStatement,
+        not: { follows: { not: { kind: "comment" }, stopBy: "end" } },
+      },
+    };
+    const modules: SgRule[] = entityKinds.includes("module")
+      ? [
+          {
+            kind: "module",
+            ...(withComments
+              ? withModuleDocstring
+              : { not: withModuleDocstring }),
+          },
+        ]
+      : [];
+
+    const rule: SgRule = {
+      any: [
+        { ...declKinds, ...inside, ...docsRule },
+        ...attributes.map((attribute) => ({
+          ...attribute,
+          ...attributeDocsRule,
+        })),
+        ...modules,
+      ],
+    };
+    if (!exportsOnly) return applyIgnorePragmas(rule, pragmas, ignored);
+
+    // private names, anything declared in a private class, or in a function body
+    const isPrivate: SgRule = {
+      any: [
+        { has: { field: "name", ...privateName } },
+        assignment(privateName),
+        { inside: { kind: "function_definition", stopBy: "end" } },
+        {
+          inside: {
+            any: [
+              { kind: "class_definition" },
+              { kind: "function_definition" },
+            ],
+            has: { field: "name", ...privateName },
+            stopBy: "end",
+          },
+        },
+      ],
+    };
+    return applyIgnorePragmas(
+      { all: [rule, { not: isPrivate }] },
+      pragmas,
+      ignored
+    );
+  }
+  isExported(decl: SgNode) {
+    // if the module declares __all__, only the listed top level names are exported
+    const root = decl.getRoot().root();
+    const all = root.find({
+      rule: {
+        kind: "assignment",
+        inside: { kind: "expression_statement", inside: { kind: "module" } },
+        has: { field: "left", regex: "^__all__$" },
+      },
+    });
+    if (!all || decl.kind() === "module") return true;
+    const names = all
+      .findAll({ rule: { kind: "string_content" } })
+      .map((n) => n.text());
+    let topLevel = decl;
+    while (topLevel.parent() && topLevel.parent().kind() !== "module")
+      topLevel = topLevel.parent();
+    if (topLevel.kind() === "decorated_definition")
+      topLevel = topLevel.field("definition");
+    const name =
+      topLevel.field("name") ||
+      topLevel.find({ rule: { kind: "assignment" } })?.field("left");
+    dbg(`__all__: %o, name: %s`, names, name?.text());
+    return !!name && names.includes(name.text());
   }
   getCommentNodes(decl: SgNode) {
+    if (decl.kind() === "module") {
+      const docnode = decl.children().find((n) => n.kind() !== "comment");
+      return isDocstring(docnode) ? [docnode.child(0)] : null;
+    }
+    if (decl.kind() === "expression_statement") {
+      const docnode = decl.next();
+      return isDocstring(docnode) ? [docnode.child(0)] : null;
+    }
     // Find the comment that follows the declaration
     const docnode = decl
       .find({ rule: { kind: "block" } })
@@ -59,55 +411,104 @@ class Python implements LanguageOps {
     return [docnode];
   }
   getCommentInsertionNode(node: SgNode) {
+    if (node.kind() === "module") {
+      // after the shebang and encoding comments
+      return node.children().find((n) => n.kind() !== "comment") || node;
+    }
+    if (node.kind() === "expression_statement") return node;
     return node.find({ rule: { kind: "block" } });
   }
+  insertCommentAfter(node: SgNode) {
+    // attribute docstrings follow the assignment
+    return node.kind() === "expression_statement";
+  }
+
+  getSignature(decl: SgNode): DocSignature | undefined {
+    // class docstrings may document the constructor arguments
+    if (decl.kind() !== "function_definition") return undefined;
+    const params = decl
+      .field("parameters")
+      .children()
+      .filter(
+        (p) =>
+          p.isNamed() &&
+          p.kind() !== "comment" &&
+          p.kind() !== "keyword_separator" &&
+          p.kind() !== "positional_separator"
+      )
+      .map(getParamName);
+    // the instance or class is implicit in methods
+    if (params[0] === "self" || params[0] === "cls") params.shift();
+    return {
+      params,
+      typeParams: decl
+        .field("type_parameters")
+        ?.children()
+        .filter((n) => n.kind() === "type")
+        .map((n) => n.text().split(/\W/)[0]),
+      returns: returnsValue(decl),
+    };
+  }
+
+  getImportsMatcher() {
+    return imports;
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
 
   getLanguageSystemPromptName() {
     return "system.python";
   }
-  getCommentText(docs: string) {
-    docs = parsers.unfence(docs, '"');
-    if (!/^\s*""".*.*"""$/s.test(docs)) {
-      docs = `"""${docs.split(/\r?\n/g).join("\n")}${
-        docs.includes("\n") ? "\n" : ""
-      }"""`;
-    }
-    return docs;
+  detectDocStyle(text: string) {
+    return detectDocstringStyle(text);
+  }
+  renderDocComment(doc: DocComment, decl: SgNode, style?: string) {
+    const content = (
+      style === "numpy"
+        ? renderNumpy(doc)
+        : style === "sphinx" || style === "epytext"
+        ? renderFields(doc, style)
+        : renderGoogle(doc)
+    ).map((l) => l.replace(/"""/g, '\\"\\"\\"'));
+    if (content.length === 1) return `"""${content[0]}"""`;
+    return `"""${content.join("\n")}\n"""`;
   }
 
-  addUpdateDocPrompt(_: ChatGenerationContext, declKind: any, declRef: string) {
+  addUpdateDocPrompt(
+    _: ChatGenerationContext,
+    declKind: any,
+    declRef: string,
+    options?: DocPromptOptions
+  ) {
     return _.$`Update the Python docstring <DOCSTRING> to match the code in ${declKind} ${declRef}.
-- If the docstring is up to date, return /NO/. It's ok to leave it as is.
+- If the docstring is up to date, set upToDate to true. It's ok to leave it as is.
 - do not rephrase an existing sentence if it is correct.
 - Make sure parameters are documented.
-- Use docstring syntax (https://peps.python.org/pep-0257/). Do not wrap in markdown code section.
+- Follow the docstring conventions (https://peps.python.org/pep-0257/).
+- ${getStyleHint(options?.style)}
 - Minimize updates to the existing docstring.
 
 The full source of the file is in <FILE> for reference.
 The source of the function is in ${declRef}.
-The current docstring is <DOCSTRING>.
-
-docstring:
-
-"""
-description
-:param param1: description
-:param param2: description
-:return: description
-"""
-`;
+The current docstring is <DOCSTRING>.`;
   }
   addGenerateDocPrompt(
     _: ChatGenerationContext,
     declKind: string,
     declRef: string,
-    fileRef: string
+    fileRef: string,
+    options?: DocPromptOptions
   ) {
-    return _.$`Generate a Python documentation comment for the ${declKind} ${declRef}.
-- Make sure parameters, type parameters, and return types are documented if relevant.
+    const examples = examplesHint(options);
+    return _.$`Generate the Python documentation for the ${declKind} ${declRef}.
+- ${getDeclKindHint(declKind)}
+- Make sure parameters, return values and raised exceptions are documented if relevant. Leave the types empty unless the code has no type hints.
 - Be concise. Use a technical tone.
-- Use docstring syntax (https://peps.python.org/pep-0257/). Do not wrap in markdown code section.
-The full source of the file is in ${fileRef} for reference.`;
+- Follow the docstring conventions (https://peps.python.org/pep-0257/).
+- ${getStyleHint(options?.style)}
+${examples}The full source of the file is in ${fileRef} for reference.`;
   }
 }
 
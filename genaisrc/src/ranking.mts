@@ -0,0 +1,90 @@
+const dbg = host.logger("script:ranking");
+
+import type { EntityKind } from "./langops.mts";
+
+/** Signals read from the AST to rank the entities to document */
+export type RankingSignals = {
+  kind: EntityKind;
+  exported: boolean;
+  /** Number of declared parameters */
+  params: number;
+  /** Number of lines of the declaration */
+  lines: number;
+  /** Number of references to the entity name in the workspace */
+  references: number;
+};
+
+const KIND_WEIGHTS: Record<EntityKind, number> = {
+  type: 3,
+  function: 3,
+  module: 2,
+  property: 1,
+  variable: 1,
+};
+
+/**
+ * Scores the importance of an entity, higher first. Exported entities come first,
+ * sizes and references have diminishing returns so that a single signal does not dominate.
+ */
+export function getRankingScore(signals: RankingSignals) {
+  const { kind, exported, params, lines, references } = signals;
+  const score =
+    KIND_WEIGHTS[kind] +
+    (exported ? 4 : 0) +
+    Math.min(params, 4) * 0.5 +
+    Math.log2(1 + lines) * 0.5 +
+    Math.log2(1 + references);
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Counts the parameters of a function from its parameter list, for the languages that do not
+ * extract signatures. Each name of grouped parameters counts, e.g. Go `a, b int`, receivers do not.
+ */
+export function countParams(decl: SgNode): number {
+  const parameters = decl.field("parameters");
+  if (!parameters) return 0;
+  return parameters
+    .children()
+    .filter(
+      (p) =>
+        p.isNamed() &&
+        !/comment/.test(p.kind()) &&
+        p.kind() !== "self_parameter"
+    )
+    .reduce(
+      (n, p) =>
+        n +
+        Math.max(
+          1,
+          p.children().filter((c) => c.kind() === "identifier").length
+        ),
+      0
+    );
+}
+
+/** Counts the occurrences of each identifier in the texts */
+export function countIdentifiers(texts: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const text of texts)
+    for (const id of text.match(/[\p{L}_$][\p{L}\p{N}_$]*/gu) || [])
+      counts.set(id, (counts.get(id) || 0) + 1);
+  dbg(`counted %d identifiers`, counts.size);
+  return counts;
+}
+
+/**
+ * Returns the name of a declaration, as the first `name` field found breadth first
+ * so that wrappers such as exports, decorators or Go type specs are looked through.
+ */
+export function getDeclarationName(decl: SgNode): string | undefined {
+  let level = [decl];
+  for (let depth = 0; depth < 3 && level.length; depth++) {
+    for (const node of level) {
+      const name = node.field("name")?.text();
+      if (name && /^[\p{L}_$][\p{L}\p{N}_$]*$/u.test(name)) return name;
+    }
+    level = level.flatMap((n) => n.children().filter((c) => c.isNamed()));
+  }
+  return undefined;
+}
@@ -0,0 +1,95 @@
+const dbg = host.logger("script:references");
+
+/** A named declaration of the workspace, which may be referenced from other files */
+export type SymbolDeclaration = {
+  name: string;
+  filename: string;
+  declKind: string;
+  /** First line of the declaration */
+  signature: string;
+  /** First paragraph of the docs, if documented */
+  summary?: string;
+};
+
+/** Declarations of the workspace files of a language, by name */
+export type SymbolIndex = Map<string, SymbolDeclaration[]>;
+
+/** Names declared more often than this are too ambiguous to be resolved */
+const MAX_DECLARATIONS = 3;
+
+/** Parameter, return and example sections ending the summary of the docs */
+const DOC_SECTION =
+  /^([@:]\w|<\w|(Args|Arguments|Parameters|Returns?|Raises|Throws|Yields|Examples?|Errors|Panics)\s*:?$|-{3,}$|#\s)/;
+
+/** Returns the first paragraph of a doc comment, without the comment markers */
+export function getDocSummary(docs: string): string | undefined {
+  const summary: string[] = [];
+  for (const line of docs.split(/\r?\n/g)) {
+    const text = line
+      .trim()
+      .replace(/^(\/\*\*?|\*\/|\*|\/\/[/!]?|#|[rRuU]?"""|[rRuU]?''')\s?/, "")
+      .replace(/(\*\/|"""|''')$/, "")
+      .replace(/<\/?summary>/g, "")
+      .trim();
+    if (!text) {
+      if (summary.length) break;
+      continue;
+    }
+    if (DOC_SECTION.test(text)) break;
+    summary.push(text);
+  }
+  return summary.join(" ") || undefined;
+}
+
+/** Returns true if the text may import the file, i.e. mentions its base name */
+function mentionsFile(text: string, filename: string) {
+  const name = filename
+    .split(/[\\/]/)
+    .at(-1)
+    .replace(/\.[^.]+$/, "");
+  return (
+    !!name &&
+    new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).test(
+      text
+    )
+  );
+}
+
+/**
+ * Resolves the referenced names to their declarations in the other files, in reference order.
+ * Declarations in files mentioned by the source, e.g. imported modules, are preferred
+ * and ambiguous names are skipped.
+ */
+export function selectReferences(
+  index: SymbolIndex,
+  names: string[],
+  filename: string,
+  source: string
+): SymbolDeclaration[] {
+  const selected: SymbolDeclaration[] = [];
+  for (const name of new Set(names)) {
+    const declarations = (index.get(name) || []).filter(
+      (d) => d.filename !== filename
+    );
+    if (!declarations.length) continue;
+    const imported = declarations.filter((d) =>
+      mentionsFile(source, d.filename)
+    );
+    const resolved = imported.length ? imported : declarations;
+    if (resolved.length > MAX_DECLARATIONS) {
+      dbg(`%s is declared %d times, skipping`, name, resolved.length);
+      continue;
+    }
+    selected.push(...resolved);
+  }
+  dbg(`resolved %d references in other files`, selected.length);
+  return selected;
+}
+
+/** Renders a referenced declaration as its first line and doc summary */
+export function renderReference(declaration: SymbolDeclaration) {
+  const { declKind, signature, filename, summary } = declaration;
+  return `${declKind} \`${signature}\` in ${filename}${
+    summary ? `: ${summary}` : ""
+  }`;
+}
@@ -0,0 +1,130 @@
+const dbg = host.logger("script:review");
+
+import { normalizePath } from "./diff.mts";
+
+/** A pull request review comment suggesting to replace a range of lines, as expected by the GitHub REST API */
+export type ReviewComment = {
+  path: string;
+  /** First line of the range, omitted for single line comments */
+  start_line?: number;
+  start_side?: "RIGHT";
+  /** Last line of the range */
+  line: number;
+  side: "RIGHT";
+  body: string;
+};
+
+/** Payload of `POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews` */
+export type ReviewPayload = {
+  event: "COMMENT";
+  body: string;
+  comments: ReviewComment[];
+};
+
+/** Returns the index of the start of the line containing the index */
+function lineStart(text: string, index: number) {
+  return text.lastIndexOf("\n", index - 1) + 1;
+}
+
+/** Returns the index of the line break ending the line containing the index */
+function lineEnd(text: string, index: number) {
+  const i = text.indexOf("\n", index);
+  return i < 0 ? text.length : i;
+}
+
+/** 1-based line number of the index */
+function lineNumber(text: string, index: number) {
+  return text.slice(0, index).split("\n").length;
+}
+
+/** Fences the suggestion with more backticks than it contains, e.g. for docs with code examples */
+function suggestion(text: string) {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) || []).map((t) => t.length)
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}suggestion\n${text}\n${fence}`;
+}
+
+/**
+ * Converts the edits of a file into suggestions replacing whole lines.
+ * Edits overlapping a previous edit are dropped, as in a changeset,
+ * and edits touching the same lines are merged in a single suggestion.
+ */
+export function createReviewComments(
+  filename: string,
+  content: string,
+  edits: SgEdit[]
+): ReviewComment[] {
+  const sorted = edits
+    .slice(0)
+    .sort((l, r) => l.startPos - r.startPos || l.endPos - r.endPos)
+    .filter((edit, i, all) => !i || edit.startPos >= all[i - 1].endPos);
+
+  // group the edits by range of lines
+  const groups: { start: number; end: number; edits: SgEdit[] }[] = [];
+  for (const edit of sorted) {
+    const start = lineStart(content, edit.startPos);
+    const end = lineEnd(content, edit.endPos);
+    const last = groups.at(-1);
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+      last.edits.push(edit);
+    } else groups.push({ start, end, edits: [edit] });
+  }
+
+  const path = normalizePath(filename);
+  return groups.map(({ start, end, edits }) => {
+    let text = "";
+    let pos = start;
+    for (const edit of edits) {
+      text += content.slice(pos, edit.startPos) + edit.insertedText;
+      pos = edit.endPos;
+    }
+    text += content.slice(pos, end);
+    const startLine = lineNumber(content, start);
+    const endLine = lineNumber(content, end);
+    const comment: ReviewComment = {
+      path,
+      ...(startLine < endLine
+        ? { start_line: startLine, start_side: "RIGHT" as const }
+        : {}),
+      line: endLine,
+      side: "RIGHT",
+      body: suggestion(text.replace(/\r/g, "")),
+    };
+    dbg(`%s:%d-%d`, path, startLine, endLine);
+    return comment;
+  });
+}
+
+export function createReviewPayload(comments: ReviewComment[]): ReviewPayload {
+  return {
+    event: "COMMENT",
+    body: `Suggested ${comments.length} documentation ${
+      comments.length === 1 ? "change" : "changes"
+    }.\n\n> AI can make mistakes, please review carefully before applying.`,
+    comments,
+  };
+}
+
+/**
+ * Posts the review on a pull request through the GitHub REST API.
+ * The pull request defaults to the pull request of the current branch.
+ */
+export async function postReview(payload: ReviewPayload, pullNumber?: number) {
+  const info = await github.info();
+  if (!info?.owner || !info?.repo)
+    throw new Error(`unable to resolve the GitHub repository`);
+  const pull_number =
+    pullNumber || info.issueNumber || (await github.getPullRequest())?.number;
+  if (!pull_number) throw new Error(`unable to resolve the pull request`);
+  const octokit = await github.api();
+  const res = await octokit.request(
+    "POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews",
+    { owner: info.owner, repo: info.repo, pull_number, ...payload }
+  );
+  dbg(`posted review %s on pull request %d`, res.data?.id, pull_number);
+  return res.data?.html_url as string | undefined;
+}
@@ -0,0 +1,283 @@
+const dbg = host.logger("script:rust");
+
+import {
+  examplesHint,
+  lineComment,
+  lines,
+  paragraphs,
+  type DocComment,
+} from "./docs.mts";
+import { applyIgnorePragmas, type PragmaOptions } from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+
+/** Node kinds documented with `//!` inner doc comments */
+const INNER_DOC_KINDS = ["source_file", "mod_item"];
+
+const outerDocComment: SgRule = {
+  any: [
+    { kind: "line_comment", has: { kind: "outer_doc_comment_marker" } },
+    { kind: "block_comment", has: { kind: "outer_doc_comment_marker" } },
+  ],
+};
+const innerDocComment: SgRule = {
+  any: [
+    { kind: "line_comment", has: { kind: "inner_doc_comment_marker" } },
+    { kind: "block_comment", has: { kind: "inner_doc_comment_marker" } },
+  ],
+};
+
+function isDocComment(node: SgNode, marker: string) {
+  return (
+    (node?.kind() === "line_comment" || node?.kind() === "block_comment") &&
+    !!node.find({ rule: { kind: marker } })
+  );
+}
+
+/** Identifiers of the types, traits and called functions referenced in a declaration */
+const references: SgRule = {
+  any: [
+    { kind: "type_identifier" },
+    {
+      kind: "identifier",
+      inside: { kind: "call_expression", field: "function" },
+    },
+    {
+      kind: "identifier",
+      inside: {
+        kind: "scoped_identifier",
+        field: "name",
+        inside: { kind: "call_expression", field: "function" },
+      },
+    },
+    {
+      kind: "field_identifier",
+      inside: {
+        kind: "field_expression",
+        field: "field",
+        inside: { kind: "call_expression", field: "function" },
+      },
+    },
+  ],
+};
+
+/** Imports of a file, kept in the focused context of large files */
+const imports: SgRule = {
+  any: [{ kind: "use_declaration" }, { kind: "extern_crate_declaration" }],
+};
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "source_file",
+  comments: ["line_comment", "block_comment"],
+  skip: ["attribute_item"],
+};
+
+class Rust implements LanguageOps {
+  getCommentableNodesMatcher(
+    entityKinds: EntityKind[],
+    withComments: boolean,
+    exportsOnly: boolean,
+    ignored?: boolean
+  ) {
+    const declKindsRaw: SgRule = {
+      any: [
+        entityKinds.includes("type") ? { kind: "struct_item" } : null,
+        entityKinds.includes("type") ? { kind: "enum_item" } : null,
+        entityKinds.includes("type") ? { kind: "trait_item" } : null,
+        entityKinds.includes("type") ? { kind: "type_item" } : null,
+        entityKinds.includes("type") ? { kind: "union_item" } : null,
+        entityKinds.includes("function") ? { kind: "function_item" } : null,
+        entityKinds.includes("function")
+          ? { kind: "function_signature_item" }
+          : null,
+        entityKinds.includes("property") ? { kind: "field_declaration" } : null,
+        entityKinds.includes("property") ? { kind: "enum_variant" } : null,
+        entityKinds.includes("variable") ? { kind: "const_item" } : null,
+        entityKinds.includes("variable") ? { kind: "static_item" } : null,
+      ].filter(Boolean) as SgRule[],
+    };
+    // pub(crate) and friends are not part of the public API
+    const pub: SgRelation = { kind: "visibility_modifier", regex: "^pub$" };
+    const exported: SgRule = {
+      any: [
+        { has: pub },
+        // enum variants and trait members inherit the visibility of their container
+        {
+          kind: "enum_variant",
+          inside: { kind: "enum_item", has: pub, stopBy: "end" },
+        },
+        { inside: { kind: "trait_item", has: pub, stopBy: "end" } },
+      ],
+    };
+    const declKinds: SgRule = exportsOnly
+      ? { all: [declKindsRaw, exported] }
+      : declKindsRaw;
+    const inside: SgRule = {
+      inside: {
+        any: [
+          {
+            kind: "source_file",
+          },
+          {
+            kind: "declaration_list",
+          },
+          {
+            kind: "field_declaration_list",
+          },
+          {
+            kind: "enum_variant_list",
+          },
+        ],
+      },
+    };
+    const withDocComment: SgRule = {
+      follows: {
+        ...outerDocComment,
+        // doc comments are placed before attributes
+        stopBy: { not: { kind: "attribute_item" } },
+      },
+    };
+    const docsRule: SgRule = withComments
+      ? withDocComment
+      : {
+          not: withDocComment,
+        };
+
+    // modules are documented with inner doc comments,
+    // at the top of the file or at the start of the mod block
+    const withInnerDocComment: SgRule = { has: innerDocComment };
+    const innerDocsRule: SgRule = withComments
+      ? withInnerDocComment
+      : { not: withInnerDocComment };
+    const modules: SgRule[] = entityKinds.includes("module")
+      ? [
+          { kind: "source_file", ...innerDocsRule },
+          {
+            kind: "mod_item",
+            ...(exportsOnly ? { has: pub } : {}),
+            inside: {
+              any: [{ kind: "source_file" }, { kind: "declaration_list" }],
+            },
+            all: [{ has: { kind: "declaration_list", ...innerDocsRule } }],
+          },
+        ]
+      : [];
+
+    return applyIgnorePragmas(
+      { any: [{ ...declKinds, ...inside, ...docsRule }, ...modules] },
+      pragmas,
+      ignored
+    );
+  }
+
+  getCommentNodes(node: SgNode) {
+    if (INNER_DOC_KINDS.includes(node.kind())) {
+      const body =
+        node.kind() === "mod_item"
+          ? node.find({ rule: { kind: "declaration_list" } })
+          : node;
+      return body
+        .children()
+        .filter((n) => isDocComment(n, "inner_doc_comment_marker"));
+    }
+
+    // skip attributes, then collect the outer doc comments in source order
+    const commentNodes: SgNode[] = [];
+    while (node && node.prev()?.kind() === "attribute_item") node = node.prev();
+    while (node && isDocComment(node.prev(), "outer_doc_comment_marker")) {
+      node = node.prev();
+      commentNodes.unshift(node);
+    }
+    dbg(`found %d comment nodes`, commentNodes.length);
+    return commentNodes;
+  }
+
+  getCommentInsertionNode(node: SgNode) {
+    if (node.kind() === "mod_item") {
+      // first item after the opening brace
+      return node.find({ rule: { kind: "declaration_list" } }).child(1);
+    }
+    if (node.kind() === "source_file") return node;
+    // doc comments go before the attributes
+    while (node.prev()?.kind() === "attribute_item") node = node.prev();
+    return node;
+  }
+
+  getImportsMatcher() {
+    return imports;
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
+
+  getLanguageSystemPromptName() {
+    return "system.rust";
+  }
+  renderDocComment(doc: DocComment, decl: SgNode) {
+    const section = (title: string, content: string[]) =>
+      content.length ? [`# ${title}`, "", ...content] : [];
+    const content = paragraphs(
+      lines(doc.summary),
+      lines(doc.remarks),
+      section(
+        "Arguments",
+        doc.params.flatMap((p) => lines(`* \`${p.name}\` - ${p.description}`))
+      ),
+      section("Returns", lines(doc.returns.description)),
+      section(
+        "Errors",
+        doc.throws.flatMap((t) =>
+          lines(t.type ? `* \`${t.type}\` - ${t.description}` : t.description)
+        )
+      ),
+      section(
+        "Examples",
+        doc.examples.flatMap((e, i) => [
+          ...(i ? [""] : []),
+          "```",
+          ...lines(e),
+          "```",
+        ])
+      ),
+      doc.deprecated ? lines(`Deprecated: ${doc.deprecated}`) : []
+    );
+    const prefix = INNER_DOC_KINDS.includes(decl.kind()) ? "//!" : "///";
+    return lineComment(content, prefix);
+  }
+  addGenerateDocPrompt(
+    _: ChatGenerationContext,
+    declKind: any,
+    declRef: string,
+    fileRef: string,
+    options?: DocPromptOptions
+  ) {
+    const examples = examplesHint(options);
+    return _.$`Generate the Rust documentation for the ${declKind} ${declRef}.
+- Follow the rustdoc conventions (https://doc.rust-lang.org/rustdoc/how-to-write-documentation.html).
+- ${
+      INNER_DOC_KINDS.includes(declKind)
+        ? `This is module level documentation, summarize the purpose of the module.`
+        : `Start with a one line summary.`
+    }
+- Document the arguments, the returned value and the errors (when returning a Result) if relevant. Describe when the code panics in the remarks, under a "# Panics" heading.
+- Be concise. Use a technical tone.
+- Do NOT include types, this is for Rust.
+${examples}The full source of the file is in ${fileRef} for reference.`;
+  }
+
+  addUpdateDocPrompt(_: ChatGenerationContext, declKind: any, declRef: string) {
+    return _.$`Update the Rust doc comment <DOCSTRING> to match the code in ${declKind} ${declRef}.
+- If the doc comment is up to date, set upToDate to true. It's ok to leave it as is.
+- do not rephrase an existing sentence if it is correct.
+- Make sure the arguments, errors, panics and examples are accurate if present or relevant.
+- Do NOT include types, this is for Rust.
+- Minimize updates to the existing doc comment.
+
+The full source of the file is in <FILE> for reference.
+The source of the function is in ${declRef}.
+The current doc comment is <DOCSTRING>.`;
+  }
+}
+
+export const rustOps = new Rust();
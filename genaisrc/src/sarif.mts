@@ -0,0 +1,152 @@
+const dbg = host.logger("script:sarif");
+
+import { normalizePath } from "./diff.mts";
+import type { EntityKind } from "./langops.mts";
+
+/** Kinds of documentation findings */
+export type FindingKind = "missing" | "stale" | "invalid";
+
+const FINDING_DESCRIPTIONS: Record<FindingKind, string> = {
+  missing: "is not documented",
+  stale: "has documentation that does not match the code",
+  invalid: "has documentation for parameters that do not exist",
+};
+
+type SarifRegion = {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+};
+
+export type SarifResult = {
+  ruleId: string;
+  ruleIndex: number;
+  level: "warning" | "note";
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: SarifRegion;
+    };
+  }[];
+  fixes?: {
+    description: { text: string };
+    artifactChanges: {
+      artifactLocation: { uri: string };
+      replacements: {
+        deletedRegion: SarifRegion;
+        insertedContent: { text: string };
+      }[];
+    }[];
+  }[];
+};
+
+/** SARIF lines and columns are 1-based, ast-grep positions are 0-based */
+function toRegion(start: SgPos, end: SgPos): SarifRegion {
+  return {
+    startLine: start.line + 1,
+    startColumn: start.column + 1,
+    endLine: end.line + 1,
+    endColumn: end.column + 1,
+  };
+}
+
+/** Region spanning from the start of the first node to the end of the last node */
+export function getNodesRegion(first: SgNode, last: SgNode = first) {
+  return toRegion(first.range().start, last.range().end);
+}
+
+/** Collects documentation findings as a SARIF 2.1.0 log */
+export class SarifLog {
+  private readonly rules: string[] = [];
+  private readonly results: SarifResult[] = [];
+
+  /** Rule ids are per finding and entity kind, e.g. `missing-function-doc` */
+  private getRuleIndex(finding: FindingKind, kind: EntityKind) {
+    const id = `${finding}-${kind}-doc`;
+    let index = this.rules.indexOf(id);
+    if (index < 0) index = this.rules.push(id) - 1;
+    return index;
+  }
+
+  addResult(
+    finding: FindingKind,
+    kind: EntityKind,
+    filename: string,
+    region: SarifRegion,
+    message: string
+  ): SarifResult {
+    const ruleIndex = this.getRuleIndex(finding, kind);
+    const result: SarifResult = {
+      ruleId: this.rules[ruleIndex],
+      ruleIndex,
+      level: finding === "missing" ? "warning" : "note",
+      message: { text: message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: normalizePath(filename) },
+            region,
+          },
+        },
+      ],
+    };
+    this.results.push(result);
+    dbg(`%s: %s`, result.ruleId, message);
+    return result;
+  }
+
+  /** Attaches the proposed comment to a result, as the replacement of a region */
+  addFix(
+    result: SarifResult,
+    description: string,
+    region: SarifRegion,
+    text: string
+  ) {
+    const uri = result.locations[0].physicalLocation.artifactLocation.uri;
+    (result.fixes ??= []).push({
+      description: { text: description },
+      artifactChanges: [
+        {
+          artifactLocation: { uri },
+          replacements: [{ deletedRegion: region, insertedContent: { text } }],
+        },
+      ],
+    });
+  }
+
+  toJSON() {
+    return {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "genai-commentor",
+              informationUri:
+                "https://github.com/pelikhan/action-genai-commentor",
+              rules: this.rules.map((id) => {
+                const [finding, kind] = id.split("-") as [
+                  FindingKind,
+                  EntityKind
+                ];
+                return {
+                  id,
+                  shortDescription: {
+                    text: `The ${kind} ${FINDING_DESCRIPTIONS[finding]}.`,
+                  },
+                  defaultConfiguration: {
+                    level: finding === "missing" ? "warning" : "note",
+                  },
+                };
+              }),
+            },
+          },
+          results: this.results,
+        },
+      ],
+    };
+  }
+}
@@ -1,40 +1,274 @@
 const dbg = host.logger("script:typescript");
 
-import type { EntityKind, LanguageOps } from "./langops.mts";
+import {
+  blockComment,
+  examplesHint,
+  lines,
+  paragraphs,
+  tag,
+  type DocComment,
+} from "./docs.mts";
+import { applyIgnorePragmas, type PragmaOptions } from "./ignore.mts";
+import type { DocPromptOptions, EntityKind, LanguageOps } from "./langops.mts";
+import { hasValueReturn, type DocSignature } from "./validate.mts";
+
+/** TSDoc file header comment, tagged with `@packageDocumentation` or `@module` */
+const packageDocComment: SgRule = {
+  kind: "comment",
+  regex: "^/\\*\\*(?s:.)*@(packageDocumentation|module)\\b",
+  // must be in the file header, before any statement
+  not: {
+    follows: {
+      not: { any: [{ kind: "comment" }, { kind: "hash_bang_line" }] },
+      stopBy: "end",
+    },
+  },
+};
+
+function isPackageDocComment(node: SgNode) {
+  return (
+    node.kind() === "comment" &&
+    /^\/\*\*[\s\S]*@(packageDocumentation|module)\b/.test(node.text())
+  );
+}
+
+/** License banners, hash bang and tool directives stay at the top of the file */
+function isFileHeaderDirective(node: SgNode) {
+  if (node.kind() === "hash_bang_line") return true;
+  if (node.kind() !== "comment") return false;
+  const text = node.text();
+  return (
+    /^\/\*!|@license|@preserve|copyright/i.test(text) ||
+    /^\/\/\/?\s*(@ts-|eslint|<reference|prettier|global\b)/.test(text) ||
+    /^\/\*\s*(eslint|global\b)/.test(text)
+  );
+}
+
+/** Expressions that make a variable or object property a function */
+const FUNCTION_VALUE_KINDS = [
+  "arrow_function",
+  "function_expression",
+  "generator_function",
+];
+const functionValue: SgRelation = {
+  field: "value",
+  any: FUNCTION_VALUE_KINDS.map((kind) => ({ kind })),
+};
+/** `const foo = () => ...` or `const foo = function () ...` */
+const functionConst: SgRule = {
+  kind: "lexical_declaration",
+  has: { kind: "variable_declarator", has: functionValue },
+};
+/** `get foo()` and `set foo(value)` */
+const accessor: SgRule = {
+  kind: "method_definition",
+  regex:
+    "^((public|private|protected|static|override|readonly|declare)\\s+)*(get|set)\\s+[^\\s(]",
+};
+/** Object literal assigned to a top level constant */
+const topLevelObject: SgRule = {
+  kind: "object",
+  inside: {
+    kind: "variable_declarator",
+    inside: {
+      kind: "lexical_declaration",
+      inside: { any: [{ kind: "program" }, { kind: "export_statement" }] },
+    },
+  },
+};
+
+function hasFunctionValue(node: SgNode) {
+  return FUNCTION_VALUE_KINDS.includes(node.field("value")?.kind());
+}
+
+/** Returns the function assigned by a `const foo = () => ...` declaration */
+function getFunctionValue(decl: SgNode) {
+  return decl
+    .children()
+    .find((n) => n.kind() === "variable_declarator" && hasFunctionValue(n))
+    ?.field("value");
+}
+
+function isAccessor(node: SgNode) {
+  return /^[^(]*\b(get|set)\s/.test(node.text());
+}
+
+/** Unwraps 'export' and 'declare' statements */
+function unwrapDeclaration(decl: SgNode) {
+  while (
+    decl.kind() === "export_statement" ||
+    decl.kind() === "ambient_declaration"
+  ) {
+    const inner = decl
+      .children()
+      .find(
+        (n) => n.isNamed() && n.kind() !== "decorator" && n.kind() !== "comment"
+      );
+    if (!inner) break;
+    decl = inner;
+  }
+  return decl;
+}
+
+const TYPE_KINDS = [
+  "class_declaration",
+  "abstract_class_declaration",
+  "class",
+  "interface_declaration",
+  "type_alias_declaration",
+];
+const FUNCTION_KINDS = [
+  ...FUNCTION_VALUE_KINDS,
+  "function_declaration",
+  "generator_function_declaration",
+  "function_signature",
+  "method_definition",
+  "method_signature",
+  "abstract_method_signature",
+];
+
+/** Parameter name, `this` for the this parameter, undefined for destructuring patterns */
+function getParamName(param: SgNode): string | undefined {
+  const pattern = param.field("pattern") ?? param;
+  // JavaScript default parameters, e.g. `mode = "say"`
+  if (pattern.kind() === "assignment_pattern")
+    return getParamName(pattern.field("left"));
+  if (pattern.kind() === "this") return "this";
+  if (pattern.kind() === "identifier") return pattern.text();
+  if (pattern.kind() === "rest_pattern")
+    return pattern.find({ rule: { kind: "identifier" } })?.text();
+  return undefined;
+}
+
+function getTypeParams(decl: SgNode) {
+  return (
+    decl
+      .field("type_parameters")
+      ?.children()
+      .filter((n) => n.kind() === "type_parameter")
+      .map((n) => n.field("name")?.text())
+      .filter(Boolean) ?? []
+  );
+}
+
+/** Returns true if the function returns a value, undefined if unknown */
+function returnsValue(fn: SgNode): boolean | undefined {
+  if (fn.field("name")?.text() === "constructor") return false;
+  const returnType = fn.field("return_type");
+  if (returnType)
+    return !/^:\s*(void|never|undefined|Promise<\s*(void|undefined)\s*>)$/.test(
+      returnType.text()
+    );
+  const body = fn.field("body");
+  // declarations without a body or return type
+  if (!body) return undefined;
+  // arrow functions with an expression body
+  if (body.kind() !== "statement_block") return true;
+  return hasValueReturn(
+    body,
+    [...FUNCTION_KINDS, "class_declaration", "class"],
+    ["yield_expression"]
+  );
+}
+
+/** Identifiers of the types, base classes and called functions referenced in a declaration */
+const references: SgRule = {
+  any: [
+    { kind: "type_identifier" },
+    { kind: "identifier", inside: { kind: "class_heritage", stopBy: "end" } },
+    {
+      kind: "identifier",
+      inside: { kind: "call_expression", field: "function" },
+    },
+    {
+      kind: "identifier",
+      inside: { kind: "new_expression", field: "constructor" },
+    },
+    {
+      kind: "property_identifier",
+      inside: {
+        kind: "member_expression",
+        field: "property",
+        inside: { kind: "call_expression", field: "function" },
+      },
+    },
+  ],
+};
+
+/** Imports of a file, kept in the focused context of large files */
+const imports: SgRule = { kind: "import_statement" };
+
+/** Comments holding the ignore pragmas */
+const pragmas: PragmaOptions = {
+  root: "program",
+  comments: ["comment"],
+  skip: ["decorator"],
+};
 
 class Typescript implements LanguageOps {
   getCommentableNodesMatcher(
     entityKinds: EntityKind[],
     withComments: boolean,
-    exportsOnly: boolean
+    exportsOnly: boolean,
+    ignored?: boolean
   ) {
     const declKindsRaw: SgRule = {
       any: [
         entityKinds.includes("function")
           ? { kind: "function_declaration" }
           : null,
+        entityKinds.includes("function")
+          ? { kind: "generator_function_declaration" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "function_signature" }
+          : null,
+        entityKinds.includes("function") ? functionConst : null,
         entityKinds.includes("type") ? { kind: "class_declaration" } : null,
+        entityKinds.includes("type")
+          ? { kind: "abstract_class_declaration" }
+          : null,
         entityKinds.includes("type") ? { kind: "interface_declaration" } : null,
         entityKinds.includes("type")
           ? { kind: "type_alias_declaration" }
           : null,
         entityKinds.includes("variable")
-          ? { kind: "lexical_declaration" }
+          ? { kind: "lexical_declaration", not: functionConst }
           : null,
         entityKinds.includes("type") ? { kind: "enum_declaration" } : null,
+        entityKinds.includes("module") ? { kind: "internal_module" } : null,
+        entityKinds.includes("module") ? { kind: "module" } : null,
         entityKinds.includes("property")
           ? { kind: "public_field_definition" }
           : null,
-        entityKinds.includes("function") ? { kind: "method_definition" } : null,
+        entityKinds.includes("property")
+          ? { kind: "property_signature" }
+          : null,
+        entityKinds.includes("property") ? accessor : null,
+        entityKinds.includes("function")
+          ? { kind: "method_definition", not: accessor }
+          : null,
+        entityKinds.includes("function") ? { kind: "method_signature" } : null,
+        entityKinds.includes("function")
+          ? { kind: "abstract_method_signature" }
+          : null,
+        entityKinds.includes("function")
+          ? { kind: "pair", has: functionValue, inside: topLevelObject }
+          : null,
       ].filter(Boolean) as SgRule[],
     };
+    // 'declare' statements wrap the declaration
+    const ambient: SgRule = {
+      kind: "ambient_declaration",
+      has: declKindsRaw,
+    };
     // If export only then require an 'export'
     const declKinds: SgRule = {
       any: [
-        exportsOnly ? { any: [] } : declKindsRaw,
+        exportsOnly ? { any: [] } : { any: [declKindsRaw, ambient] },
         {
           kind: "export_statement",
-          has: declKindsRaw,
+          has: { any: [declKindsRaw, ambient] },
         },
       ],
     };
@@ -45,18 +279,36 @@ class Typescript implements LanguageOps {
             kind: "program",
           },
           {
-            kind: "module",
+            // body of a namespace, module or 'declare global' block
+            kind: "statement_block",
+            inside: {
+              any: [
+                { kind: "internal_module" },
+                { kind: "module" },
+                { kind: "ambient_declaration" },
+              ],
+            },
           },
           {
             kind: "class_body",
           },
+          {
+            kind: "interface_body",
+          },
+          {
+            kind: "object_type",
+          },
+          topLevelObject,
         ],
       },
     };
     const withDocComment: SgRule = {
       follows: {
         kind: "comment",
-        stopBy: "neighbor",
+        // JSDoc comments, not line comments such as ignore pragmas
+        regex: "^/\\*\\*",
+        // doc comments are placed before decorators
+        stopBy: { not: { kind: "decorator" } },
       },
     };
     const docsRule: SgRule = withComments
@@ -65,38 +317,154 @@ class Typescript implements LanguageOps {
           not: withDocComment,
         };
 
-    return { ...declKinds, ...inside, ...docsRule };
+    const rule: SgRule = { ...declKinds, ...inside, ...docsRule };
+    if (!entityKinds.includes("module"))
+      return applyIgnorePragmas(rule, pragmas, ignored);
+
+    const withPackageDocComment: SgRule = { has: packageDocComment };
+    return applyIgnorePragmas(
+      {
+        any: [
+          rule,
+          {
+            kind: "program",
+            ...(withComments
+              ? withPackageDocComment
+              : { not: withPackageDocComment }),
+          },
+        ],
+      },
+      pragmas,
+      ignored
+    );
   }
   getCommentNodes(decl: SgNode) {
+    if (decl.kind() === "program")
+      return decl.children().filter(isPackageDocComment).slice(0, 1);
+    while (decl.prev()?.kind() === "decorator") decl = decl.prev();
     return [decl.prev()];
   }
   getCommentInsertionNode(node: SgNode) {
+    if (node.kind() === "program")
+      return node.children().find((n) => !isFileHeaderDirective(n)) || node;
+    // doc comments go before the decorators
+    while (node.prev()?.kind() === "decorator") node = node.prev();
     return node;
   }
+  getDeclarationKind(decl: SgNode) {
+    decl = unwrapDeclaration(decl);
+    const kind = decl.kind();
+    if (kind === "lexical_declaration" && getFunctionValue(decl))
+      return "function";
+    if (kind === "pair" && hasFunctionValue(decl)) return "method";
+    if (kind === "method_definition" && isAccessor(decl)) return "accessor";
+    if (kind === "internal_module") return "namespace";
+    return kind;
+  }
+  getSignature(decl: SgNode): DocSignature | undefined {
+    decl = unwrapDeclaration(decl);
+    const kind = decl.kind();
+    if (TYPE_KINDS.includes(kind))
+      return {
+        params: [],
+        typeParams: getTypeParams(decl),
+        returns: false,
+      };
+    const fn =
+      kind === "lexical_declaration"
+        ? getFunctionValue(decl)
+        : kind === "pair"
+        ? decl.field("value")
+        : decl;
+    if (
+      !fn ||
+      !FUNCTION_KINDS.includes(fn.kind()) ||
+      (fn.kind() === "method_definition" && isAccessor(fn))
+    )
+      return undefined;
+    const parameters = fn.field("parameters");
+    return {
+      params: parameters
+        ? parameters
+            .children()
+            .filter((p) => p.isNamed() && p.kind() !== "comment")
+            .map(getParamName)
+            .filter((p) => p !== "this")
+        : // single parameter arrow function, e.g. `x => x`
+          [fn.field("parameter")?.text()],
+      typeParams: getTypeParams(fn),
+      returns: returnsValue(fn),
+    };
+  }
+  getDeclarationText(decl: SgNode) {
+    if (decl.kind() !== "program") return decl.text();
+    // list the exported symbols so that the summary does not depend on the file size
+    const exports = decl
+      .findAll({
+        rule: { kind: "export_statement", inside: { kind: "program" } },
+      })
+      .map((n) =>
+        n
+          .text()
+          .split(/\r?\n/)[0]
+          .replace(/\s*\{\s*$/, "")
+      );
+    dbg(`exports: %o`, exports);
+    return exports.join("\n");
+  }
+
+  getImportsMatcher() {
+    return imports;
+  }
+
+  getReferencesMatcher() {
+    return references;
+  }
 
   getLanguageSystemPromptName() {
     return "system.typescript";
   }
-  getCommentText(docs: string) {
-    docs = parsers.unfence(docs, "*");
-
-    if (!/^\s*\/\*\*.*.*\*\/\s*$/s.test(docs))
-      docs = `/**\n * ${docs.split(/\r?\n/g).join("\n * ")}\n */`;
-    return docs;
+  renderDocComment(doc: DocComment, decl: SgNode) {
+    const content = paragraphs(
+      lines(doc.summary),
+      doc.remarks ? ["@remarks", ...lines(doc.remarks)] : [],
+      [
+        ...doc.typeParams.flatMap((p) =>
+          tag("@typeParam", p.name, "-", p.description)
+        ),
+        ...doc.params.flatMap((p) => tag("@param", p.name, "-", p.description)),
+        ...(doc.returns.description
+          ? tag("@returns", doc.returns.description)
+          : []),
+        ...doc.throws.flatMap((t) =>
+          tag("@throws", t.type ? `{@link ${t.type}}` : "", t.description)
+        ),
+      ],
+      ...doc.examples.map((e) => ["@example", "```ts", ...lines(e), "```"]),
+      doc.deprecated ? tag("@deprecated", doc.deprecated) : [],
+      decl.kind() === "program" ? ["@packageDocumentation"] : []
+    );
+    return blockComment(content);
   }
   addGenerateDocPrompt(
     _: ChatGenerationContext,
     declKind: any,
     declRef: string,
-    fileRef: string
+    fileRef: string,
+    options?: DocPromptOptions
   ): PromptTemplateString {
-    return _.$`Generate a TypeScript documentation comment for the ${declKind} ${declRef}.
-- Make sure parameters, type parameters, and return types are documented if relevant.
+    const examples = examplesHint(options);
+    if (declKind === "program")
+      return _.$`Generate the TypeScript file header documentation for the module whose exported symbols are listed in ${declRef}.
+- Summarize the purpose of the module and what it exports.
 - Be concise. Use a technical tone.
-- Do NOT include types, this is for TypeScript.
-- Use docstring syntax (https://tsdoc.org/). Do not wrap in markdown code section.
-- Start the comment with "/**" and end with "*/".
-The full source of the file is in ${fileRef} for reference.`;
+- Leave params, typeParams, returns and throws empty.
+${examples}The full source of the file is in ${fileRef} for reference.`;
+    return _.$`Generate the TypeScript documentation for the ${declKind} ${declRef}.
+- Make sure parameters, type parameters, and return values are documented if relevant.
+- Be concise. Use a technical tone.
+- Do NOT include types, this is for TypeScript. Descriptions may use TSDoc inline tags such as {@link name}.
+${examples}The full source of the file is in ${fileRef} for reference.`;
   }
 
   addUpdateDocPrompt(
@@ -104,27 +472,26 @@ The full source of the file is in ${fileRef} for reference.`;
     declKind: any,
     declRef: string
   ): PromptTemplateString {
+    if (declKind === "program")
+      return _.$`Update the TypeScript file header docstring <DOCSTRING> to match the module whose exported symbols are listed in ${declRef}.
+- If the docstring is up to date, set upToDate to true. It's ok to leave it as is.
+- do not rephrase an existing sentence if it is correct.
+- Make sure the summary matches what the module exports.
+- Leave params, typeParams, returns and throws empty.
+- Minimize updates to the existing docstring.
+
+The full source of the file is in <FILE> for reference.
+The current docstring is <DOCSTRING>.`;
     return _.$`Update the TypeScript docstring <DOCSTRING> to match the code in ${declKind} ${declRef}.
-- If the docstring is up to date, return /NO/. It's ok to leave it as is.
+- If the docstring is up to date, set upToDate to true. It's ok to leave it as is.
 - do not rephrase an existing sentence if it is correct.
 - Make sure parameters are documented.
 - Do NOT include types, this is for TypeScript.
-- Use docstring syntax. do not wrap in markdown code section.
 - Minimize updates to the existing docstring.
 
 The full source of the file is in <FILE> for reference.
 The source of the function is in ${declRef}.
-The current docstring is <DOCSTRING>.
-
-docstring:
-
-/**
- * description
- * @param param1 - description
- * @param param2 - description
- * @returns description
- */
-`;
+The current docstring is <DOCSTRING>.`;
   }
 }
 
@@ -0,0 +1,185 @@
+const dbg = host.logger("script:validate");
+
+import type { DocComment, DocItem } from "./docs.mts";
+
+/**
+ * Documentable signature of a declaration, extracted from its AST.
+ * Undefined members are unknown and not validated.
+ */
+export type DocSignature = {
+  /** Parameter names in declaration order, undefined for unnamed parameters such as destructuring patterns */
+  params?: (string | undefined)[];
+  /** Type parameter names in declaration order */
+  typeParams?: string[];
+  /** True if the declaration returns a value */
+  returns?: boolean;
+};
+
+export type DocVerdict = "valid" | "repaired" | "rejected";
+
+export type DocValidation<T extends DocComment> = {
+  verdict: DocVerdict;
+  /** The doc comment, repaired if needed */
+  doc: T;
+  issues: string[];
+};
+
+/** `*args`, `...rest` and `options.name` document the `args`, `rest` and `options` parameters */
+function baseName(name: string) {
+  return name.replace(/^(\*{1,2}|\.\.\.)/, "").split(".")[0];
+}
+
+/**
+ * Drops the documented items that are not declared, removes duplicates
+ * and sorts the items in declaration order.
+ */
+function matchItems(items: DocItem[], names: string[], label: string) {
+  const repairs: string[] = [];
+  const seen = new Set<string>();
+  const matched = items.filter((item) => {
+    if (!names.includes(baseName(item.name))) {
+      repairs.push(`unknown ${label} ${item.name}`);
+      return false;
+    }
+    if (seen.has(item.name)) {
+      repairs.push(`duplicate ${label} ${item.name}`);
+      return false;
+    }
+    seen.add(item.name);
+    return true;
+  });
+  const index = (item: DocItem) => names.indexOf(baseName(item.name));
+  const sorted = matched
+    .map((item, i) => ({ item, i }))
+    .sort((l, r) => index(l.item) - index(r.item) || l.i - r.i)
+    .map(({ item }) => item);
+  if (sorted.some((item, i) => item !== matched[i]))
+    repairs.push(`${label}s out of order`);
+  const documented = new Set(sorted.map((item) => baseName(item.name)));
+  const missing = names.filter((name) => !documented.has(name));
+  return { items: sorted, repairs, missing };
+}
+
+/**
+ * Compares the documented parameters, type parameters and returned value with the signature
+ * of the declaration. Unknown, duplicate or misordered items and the docs of a returned value
+ * that does not exist are repaired, undocumented parameters reject the docs.
+ */
+export function validateDocComment<T extends DocComment>(
+  doc: T,
+  signature: DocSignature | undefined
+): DocValidation<T> {
+  if (!signature) return { verdict: "valid", doc, issues: [] };
+
+  const repairs: string[] = [];
+  const errors: string[] = [];
+  const repaired: T = { ...doc };
+  const { params, typeParams, returns } = signature;
+
+  if (params && params.every((p) => p !== undefined)) {
+    const res = matchItems(doc.params, params, "parameter");
+    repaired.params = res.items;
+    repairs.push(...res.repairs);
+    errors.push(...res.missing.map((p) => `undocumented parameter ${p}`));
+  }
+  if (typeParams) {
+    const res = matchItems(doc.typeParams, typeParams, "type parameter");
+    repaired.typeParams = res.items;
+    repairs.push(...res.repairs);
+    // type parameters are often self explanatory
+    if (res.missing.length)
+      dbg(`undocumented type parameters: %o`, res.missing);
+  }
+  if (returns === false && doc.returns.description) {
+    repaired.returns = { type: "", description: "" };
+    repairs.push(`documented return value but nothing is returned`);
+  }
+
+  const issues = [...errors, ...repairs];
+  const verdict: DocVerdict = errors.length
+    ? "rejected"
+    : repairs.length
+    ? "repaired"
+    : "valid";
+  dbg(`%s: %o`, verdict, issues);
+  return { verdict, doc: verdict === "repaired" ? repaired : doc, issues };
+}
+
+/**
+ * Returns true if the body of a function returns or yields a value,
+ * ignoring nested functions.
+ */
+export function hasValueReturn(
+  body: SgNode,
+  functionKinds: string[],
+  yieldKinds: string[]
+): boolean {
+  return body.children().some((node) => {
+    const kind = node.kind();
+    if (functionKinds.includes(kind)) return false;
+    if (yieldKinds.includes(kind)) return true;
+    if (
+      kind === "return_statement" &&
+      node.children().some((c) => c.isNamed() && c.kind() !== "comment")
+    )
+      return true;
+    return hasValueReturn(node, functionKinds, yieldKinds);
+  });
+}
+
+/** Returns the names of the parameters documented in the Google style `Args:` sections of a docstring */
+function getGoogleArgs(docs: string): string[] {
+  const names: string[] = [];
+  const re =
+    /^([ \t]*)(?:Args|Arguments):[ \t]*\r?\n((?:\1[ \t]+\S.*(?:\r?\n|$))*)/gm;
+  for (const [, , block] of docs.matchAll(re)) {
+    const entries = block.split(/\r?\n/).filter((l) => l.trim());
+    const indent = Math.min(...entries.map((l) => /^\s*/.exec(l)[0].length));
+    for (const entry of entries) {
+      const m = /^\s*(\*{0,2}\w+)\s*(?:\([^)]*\))?\s*:/.exec(entry);
+      if (m && /^\s*/.exec(entry)[0].length === indent) names.push(m[1]);
+    }
+  }
+  return names;
+}
+
+/** Returns the names of the parameters documented in the NumPy style `Parameters` sections of a docstring */
+function getNumpyParams(docs: string): string[] {
+  const names: string[] = [];
+  const re =
+    /^([ \t]*)Parameters[ \t]*\r?\n\1-{3,}[ \t]*\r?\n((?:(?:\1.*|[ \t]*)(?:\r?\n|$))*)/gm;
+  for (const [, indent, block] of docs.matchAll(re)) {
+    for (const entry of block.split(/\r?\n/)) {
+      // the section ends at the next section header
+      if (/^\s*-{3,}\s*$/.test(entry)) {
+        names.pop();
+        break;
+      }
+      const m = /^(\*{0,2}\w+)\s*(?::.*)?$/.exec(entry.slice(indent.length));
+      if (m) names.push(m[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Returns the parameters named in existing docs that are not declared,
+ * using the JSDoc, Javadoc, XML doc, reST, Epytext, Google and NumPy conventions.
+ */
+export function getUnknownDocumentedParams(
+  docs: string,
+  signature: DocSignature | undefined
+): string[] {
+  const params = signature?.params;
+  if (!params || params.some((p) => p === undefined)) return [];
+  const names = [
+    ...[...docs.matchAll(/@param\s+(?:\{[^}]*\}\s+)?\[?([\w$.]+)/g)],
+    ...[...docs.matchAll(/<param\s+name="(\w+)"/g)],
+    ...[...docs.matchAll(/:param\s+(?:\w+\s+)?(\*{0,2}\w+):/g)],
+  ]
+    .map((m) => m[1])
+    .concat(getGoogleArgs(docs), getNumpyParams(docs));
+  const unknown = names.filter((name) => !params.includes(baseName(name)));
+  if (unknown.length) dbg(`unknown documented parameters: %o`, unknown);
+  return [...new Set(unknown)];
+}
@@ -0,0 +1,9 @@
+system({
+  title: "Expert at generating and understanding Rust code.",
+});
+
+export default function (ctx: ChatGenerationContext) {
+  const { $ } = ctx;
+
+  $`You are an expert coder in Rust. You write idiomatic Rust code and follow the rustdoc conventions.`;
+}
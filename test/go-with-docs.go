@@ -0,0 +1,96 @@
+// Package cowsay renders quacks.
+package cowsay
+
+import (
+	"fmt"
+	"strings"
+)
+
+// DefaultEyes is a quack.
+const DefaultEyes = "oo"
+
+// Mode is a quack mode.
+type Mode int
+
+const (
+	Say Mode = iota
+	Think
+)
+
+// Options quacks options.
+type Options struct {
+	// Text is the quack text.
+	Text string
+	// Mode is the quack mode.
+	Mode Mode
+	// Eyes are the quack eyes.
+	Eyes   string
+	tongue string
+}
+
+// Speaker is a quacker.
+type Speaker interface {
+	// Speak quacks the text.
+	Speak(text string) string
+}
+
+// Cow is a quack.
+type Cow struct {
+	options Options
+}
+
+// NewCow creates a new quack.
+func NewCow(options Options) *Cow {
+	if options.Eyes == "" {
+		options.Eyes = DefaultEyes
+	}
+	return &Cow{options: options}
+}
+
+// Speak quacks.
+//
+// It quacks twice.
+func (c *Cow) Speak(text string) string {
+	lines := formatText(text, 40)
+	return createBubble(lines, c.options.Mode) + c.body()
+}
+
+// body returns the quack body.
+func (c *Cow) body() string {
+	return fmt.Sprintf("        \\   ^__^\n         \\  (%s)\\_______\n", c.options.Eyes)
+}
+
+// formatText quacks text into lines.
+func formatText(text string, maxWidth int) []string {
+	words := strings.Fields(text)
+	lines := []string{}
+	current := ""
+	for _, word := range words {
+		if len(current)+len(word)+1 <= maxWidth {
+			if current != "" {
+				current += " "
+			}
+			current += word
+		} else {
+			lines = append(lines, current)
+			current = word
+		}
+	}
+	if current != "" {
+		lines = append(lines, current)
+	}
+	return lines
+}
+
+//go:noinline
+func createBubble(lines []string, mode Mode) string {
+	open, close := "<", ">"
+	if mode == Think {
+		open, close = "(", ")"
+	}
+	var b strings.Builder
+	for _, line := range lines {
+		b.WriteString(fmt.Sprintf("%s %s %s\n", open, line, close))
+	}
+	return b.String()
+}
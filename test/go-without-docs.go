@@ -0,0 +1,79 @@
+package cowsay
+
+import (
+	"fmt"
+	"strings"
+)
+
+const DefaultEyes = "oo"
+
+type Mode int
+
+const (
+	Say Mode = iota
+	Think
+)
+
+type Options struct {
+	Text   string
+	Mode   Mode
+	Eyes   string
+	tongue string
+}
+
+type Speaker interface {
+	Speak(text string) string
+}
+
+type Cow struct {
+	options Options
+}
+
+func NewCow(options Options) *Cow {
+	if options.Eyes == "" {
+		options.Eyes = DefaultEyes
+	}
+	return &Cow{options: options}
+}
+
+func (c *Cow) Speak(text string) string {
+	lines := formatText(text, 40)
+	return createBubble(lines, c.options.Mode) + c.body()
+}
+
+func (c *Cow) body() string {
+	return fmt.Sprintf("        \\   ^__^\n         \\  (%s)\\_______\n", c.options.Eyes)
+}
+
+func formatText(text string, maxWidth int) []string {
+	words := strings.Fields(text)
+	lines := []string{}
+	current := ""
+	for _, word := range words {
+		if len(current)+len(word)+1 <= maxWidth {
+			if current != "" {
+				current += " "
+			}
+			current += word
+		} else {
+			lines = append(lines, current)
+			current = word
+		}
+	}
+	if current != "" {
+		lines = append(lines, current)
+	}
+	return lines
+}
+
+func createBubble(lines []string, mode Mode) string {
+	open, close := "<", ">"
+	if mode == Think {
+		open, close = "(", ")"
+	}
+	var b strings.Builder
+	for _, line := range lines {
+		b.WriteString(fmt.Sprintf("%s %s %s\n", open, line, close))
+	}
+	return b.String()
+}
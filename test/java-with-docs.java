@@ -0,0 +1,122 @@
+package com.example.cowsay;
+
+import java.util.ArrayList;
+import java.util.List;
+
+/**
+ * Renders quacks.
+ */
+public class Cowsay {
+    /** The default quack eyes. */
+    public static final String DEFAULT_EYES = "oo";
+
+    // Not a Javadoc comment.
+    private final Options options;
+
+    /**
+     * A quack mode.
+     */
+    public enum Mode {
+        /** Quack out loud. */
+        SAY,
+        /** Quack quietly. */
+        THINK
+    }
+
+    /**
+     * Quack options.
+     *
+     * @param text the quack text
+     * @param mode the quack mode
+     * @param eyes the quack eyes
+     */
+    public record Options(String text, Mode mode, String eyes) {
+        /**
+         * Validates the quack options.
+         */
+        public Options {
+            if (eyes == null) {
+                eyes = DEFAULT_EYES;
+            }
+        }
+    }
+
+    /**
+     * A quacker.
+     *
+     * @param <T> the quack input type
+     */
+    public interface Speaker<T> {
+        /**
+         * Quacks the input.
+         *
+         * @param input the quack input
+         * @return the quack
+         * @throws IllegalArgumentException if the quack is invalid
+         */
+        String speak(T input) throws IllegalArgumentException;
+    }
+
+    /**
+     * Creates a new quack.
+     *
+     * @param options the quack options
+     */
+    public Cowsay(Options options) {
+        this.options = options;
+    }
+
+    /**
+     * Quacks.
+     */
+    @Override
+    public String toString() {
+        return createBubble(formatText(options.text(), 40), options.mode()) + createCow();
+    }
+
+    /* Not a Javadoc comment either. */
+    protected String createCow() {
+        return "        \\   ^__^\n         \\  (" + options.eyes() + ")\\_______\n";
+    }
+
+    /**
+     * Quacks text into lines.
+     */
+    static List<String> formatText(String text, int maxWidth) {
+        List<String> lines = new ArrayList<>();
+        StringBuilder current = new StringBuilder();
+        for (String word : text.split(" ")) {
+            if (current.length() + word.length() + 1 <= maxWidth) {
+                if (current.length() > 0) {
+                    current.append(' ');
+                }
+                current.append(word);
+            } else {
+                lines.add(current.toString());
+                current = new StringBuilder(word);
+            }
+        }
+        if (current.length() > 0) {
+            lines.add(current.toString());
+        }
+        return lines;
+    }
+
+    /**
+     * Quacks a bubble.
+     */
+    private static String createBubble(List<String> lines, Mode mode) {
+        String open = mode == Mode.SAY ? "<" : "(";
+        String close = mode == Mode.SAY ? ">" : ")";
+        StringBuilder result = new StringBuilder();
+        for (String line : lines) {
+            result.append(open).append(' ').append(line).append(' ').append(close).append('\n');
+        }
+        return result.toString();
+    }
+
+    private static class Helper {
+        /** Helps a quack. */
+        public void help() {}
+    }
+}
@@ -0,0 +1,74 @@
+package com.example.cowsay;
+
+import java.util.ArrayList;
+import java.util.List;
+
+public class Cowsay {
+    public static final String DEFAULT_EYES = "oo";
+
+    private final Options options;
+
+    public enum Mode {
+        SAY,
+        THINK
+    }
+
+    public record Options(String text, Mode mode, String eyes) {
+        public Options {
+            if (eyes == null) {
+                eyes = DEFAULT_EYES;
+            }
+        }
+    }
+
+    public interface Speaker<T> {
+        String speak(T input) throws IllegalArgumentException;
+    }
+
+    public Cowsay(Options options) {
+        this.options = options;
+    }
+
+    @Override
+    public String toString() {
+        return createBubble(formatText(options.text(), 40), options.mode()) + createCow();
+    }
+
+    protected String createCow() {
+        return "        \\   ^__^\n         \\  (" + options.eyes() + ")\\_______\n";
+    }
+
+    static List<String> formatText(String text, int maxWidth) {
+        List<String> lines = new ArrayList<>();
+        StringBuilder current = new StringBuilder();
+        for (String word : text.split(" ")) {
+            if (current.length() + word.length() + 1 <= maxWidth) {
+                if (current.length() > 0) {
+                    current.append(' ');
+                }
+                current.append(word);
+            } else {
+                lines.add(current.toString());
+                current = new StringBuilder(word);
+            }
+        }
+        if (current.length() > 0) {
+            lines.add(current.toString());
+        }
+        return lines;
+    }
+
+    private static String createBubble(List<String> lines, Mode mode) {
+        String open = mode == Mode.SAY ? "<" : "(";
+        String close = mode == Mode.SAY ? ">" : ")";
+        StringBuilder result = new StringBuilder();
+        for (String line : lines) {
+            result.append(open).append(' ').append(line).append(' ').append(close).append('\n');
+        }
+        return result.toString();
+    }
+
+    private static class Helper {
+        public void help() {}
+    }
+}
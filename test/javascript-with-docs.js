@@ -0,0 +1,87 @@
+/** The default quack eyes. */
+const DEFAULT_EYES = "oo"
+
+/**
+ * A quack.
+ */
+class Cow {
+    /**
+     * Creates a quack.
+     * @param {string} [eyes] - The quack eyes.
+     */
+    constructor(eyes = DEFAULT_EYES) {
+        this.eyes = eyes
+    }
+
+    /**
+     * Quacks.
+     * @param {string} text - The quack text.
+     * @returns {string} The quack.
+     */
+    speak(text, mode = "say") {
+        return createBubble(formatText(text), mode) + this.body()
+    }
+
+    body() {
+        return `        \\   ^__^
+         \\  (${this.eyes})\\_______
+`
+    }
+}
+
+/**
+ * Quacks text into lines.
+ * @param {string} text - The quack text.
+ * @returns {string[]} The quack lines.
+ */
+function formatText(text, maxWidth = 40) {
+    if (!text) return [""]
+
+    const words = text.split(" ")
+    const lines = []
+    let currentLine = ""
+
+    for (const word of words) {
+        if (currentLine.length + word.length + 1 <= maxWidth) {
+            currentLine += (currentLine ? " " : "") + word
+        } else {
+            lines.push(currentLine)
+            currentLine = word
+        }
+    }
+
+    if (currentLine) {
+        lines.push(currentLine)
+    }
+
+    return lines
+}
+
+const createBubble = (lines, mode) => {
+    const [open, close] = mode === "say" ? ["<", ">"] : ["(", ")"]
+    return lines.map((line) => `${open} ${line} ${close}\n`).join("")
+}
+
+/**
+ * Quacks the text.
+ * @param {string} text - The quack text.
+ * @returns {string} The quack.
+ */
+function cowsay(text) {
+    return new Cow().speak(text)
+}
+
+module.exports = cowsay
+
+/** The quack class. */
+module.exports.Cow = Cow
+
+/**
+ * Quacks quietly.
+ * @param {string} text - The quack text.
+ */
+exports.cowthink = function (text) {
+    return new Cow().speak(text, "think")
+}
+
+exports.DEFAULT_EYES = DEFAULT_EYES
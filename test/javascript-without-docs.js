@@ -0,0 +1,59 @@
+const DEFAULT_EYES = "oo"
+
+class Cow {
+    constructor(eyes = DEFAULT_EYES) {
+        this.eyes = eyes
+    }
+
+    speak(text, mode = "say") {
+        return createBubble(formatText(text), mode) + this.body()
+    }
+
+    body() {
+        return `        \\   ^__^
+         \\  (${this.eyes})\\_______
+`
+    }
+}
+
+function formatText(text, maxWidth = 40) {
+    if (!text) return [""]
+
+    const words = text.split(" ")
+    const lines = []
+    let currentLine = ""
+
+    for (const word of words) {
+        if (currentLine.length + word.length + 1 <= maxWidth) {
+            currentLine += (currentLine ? " " : "") + word
+        } else {
+            lines.push(currentLine)
+            currentLine = word
+        }
+    }
+
+    if (currentLine) {
+        lines.push(currentLine)
+    }
+
+    return lines
+}
+
+const createBubble = (lines, mode) => {
+    const [open, close] = mode === "say" ? ["<", ">"] : ["(", ")"]
+    return lines.map((line) => `${open} ${line} ${close}\n`).join("")
+}
+
+function cowsay(text) {
+    return new Cow().speak(text)
+}
+
+module.exports = cowsay
+
+module.exports.Cow = Cow
+
+exports.cowthink = function (text) {
+    return new Cow().speak(text, "think")
+}
+
+exports.DEFAULT_EYES = DEFAULT_EYES
@@ -5,6 +5,9 @@ It provides an overview of the module's purpose and usage.
 
 import math
 
+MAX_VALUE = 100
+"""The maximum value."""
+
 class MyClass:
     """This is a class docstring.
 
@@ -12,6 +15,7 @@ class MyClass:
     """
 
     class_variable = 42
+    """A class attribute docstring."""
 
     def __init__(self, value):
         """Constructor docstring.
@@ -80,3 +84,7 @@ async def my_coroutine():
     """Coroutine function docstring."""
     return "Hello async"
 
+
+def _private_function():
+    """Private function docstring."""
+    return None
@@ -1,5 +1,7 @@
 import math
 
+MAX_VALUE = 100
+
 class MyClass:
     class_variable = 42
 
@@ -37,3 +39,6 @@ def my_generator():
 async def my_coroutine():
     return "Hello async"
 
+
+def _private_function():
+    return None
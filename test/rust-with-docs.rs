@@ -0,0 +1,117 @@
+//! Renders quacks.
+//!
+//! It quacks a lot.
+
+use std::fmt;
+
+/// The default quack eyes.
+pub const DEFAULT_EYES: &str = "oo";
+
+/// A quack mode.
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub enum Mode {
+    /// Quack out loud.
+    Say,
+    /// Quack quietly.
+    Think,
+}
+
+/// Quack options.
+pub struct Options {
+    /// The quack text.
+    pub text: String,
+    /// The quack mode.
+    pub mode: Mode,
+    eyes: String,
+}
+
+/// A quacker.
+pub trait Speaker {
+    /// Quacks the text.
+    fn speak(&self, text: &str) -> String;
+}
+
+/// A quack.
+pub struct Cow {
+    options: Options,
+}
+
+impl Cow {
+    /// Creates a new quack.
+    ///
+    /// # Arguments
+    ///
+    /// * `text` - The quack text.
+    pub fn new(text: &str, mode: Mode) -> Self {
+        Cow {
+            options: Options {
+                text: text.to_string(),
+                mode,
+                eyes: DEFAULT_EYES.to_string(),
+            },
+        }
+    }
+
+    /// Returns the quack body.
+    fn body(&self) -> String {
+        format!("        \\   ^__^\n         \\  ({})\\_______\n", self.options.eyes)
+    }
+}
+
+impl Speaker for Cow {
+    /// Quacks.
+    fn speak(&self, text: &str) -> String {
+        let lines = format_text(text, 40);
+        create_bubble(&lines, self.options.mode) + &self.body()
+    }
+}
+
+impl fmt::Display for Cow {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        write!(f, "{}", self.speak(&self.options.text))
+    }
+}
+
+/// Quacks text into lines.
+pub fn format_text(text: &str, max_width: usize) -> Vec<String> {
+    let mut lines = Vec::new();
+    let mut current = String::new();
+    for word in text.split_whitespace() {
+        if current.len() + word.len() + 1 <= max_width {
+            if !current.is_empty() {
+                current.push(' ');
+            }
+            current.push_str(word);
+        } else {
+            lines.push(current);
+            current = word.to_string();
+        }
+    }
+    if !current.is_empty() {
+        lines.push(current);
+    }
+    lines
+}
+
+// Not a doc comment.
+fn create_bubble(lines: &[String], mode: Mode) -> String {
+    let (open, close) = match mode {
+        Mode::Say => ("<", ">"),
+        Mode::Think => ("(", ")"),
+    };
+    lines
+        .iter()
+        .map(|line| format!("{} {} {}\n", open, line, close))
+        .collect()
+}
+
+pub mod cows {
+    //! Quack presets.
+
+    use super::*;
+
+    /// Makes a quack.
+    pub fn moo() -> Cow {
+        Cow::new("moo", Mode::Say)
+    }
+}
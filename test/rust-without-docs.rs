@@ -0,0 +1,91 @@
+use std::fmt;
+
+pub const DEFAULT_EYES: &str = "oo";
+
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub enum Mode {
+    Say,
+    Think,
+}
+
+pub struct Options {
+    pub text: String,
+    pub mode: Mode,
+    eyes: String,
+}
+
+pub trait Speaker {
+    fn speak(&self, text: &str) -> String;
+}
+
+pub struct Cow {
+    options: Options,
+}
+
+impl Cow {
+    pub fn new(text: &str, mode: Mode) -> Self {
+        Cow {
+            options: Options {
+                text: text.to_string(),
+                mode,
+                eyes: DEFAULT_EYES.to_string(),
+            },
+        }
+    }
+
+    fn body(&self) -> String {
+        format!("        \\   ^__^\n         \\  ({})\\_______\n", self.options.eyes)
+    }
+}
+
+impl Speaker for Cow {
+    fn speak(&self, text: &str) -> String {
+        let lines = format_text(text, 40);
+        create_bubble(&lines, self.options.mode) + &self.body()
+    }
+}
+
+impl fmt::Display for Cow {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        write!(f, "{}", self.speak(&self.options.text))
+    }
+}
+
+pub fn format_text(text: &str, max_width: usize) -> Vec<String> {
+    let mut lines = Vec::new();
+    let mut current = String::new();
+    for word in text.split_whitespace() {
+        if current.len() + word.len() + 1 <= max_width {
+            if !current.is_empty() {
+                current.push(' ');
+            }
+            current.push_str(word);
+        } else {
+            lines.push(current);
+            current = word.to_string();
+        }
+    }
+    if !current.is_empty() {
+        lines.push(current);
+    }
+    lines
+}
+
+fn create_bubble(lines: &[String], mode: Mode) -> String {
+    let (open, close) = match mode {
+        Mode::Say => ("<", ">"),
+        Mode::Think => ("(", ")"),
+    };
+    lines
+        .iter()
+        .map(|line| format!("{} {} {}\n", open, line, close))
+        .collect()
+}
+
+pub mod cows {
+    use super::*;
+
+    pub fn moo() -> Cow {
+        Cow::new("moo", Mode::Say)
+    }
+}